@@ -5,6 +5,12 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
 import CompetitorStackPage from "./pages/CompetitorStackPage";
+import AnalysisHistoryPage from "./pages/AnalysisHistoryPage";
+import BatchAnalysisPage from "./pages/BatchAnalysisPage";
+import SharedAnalysisPage from "./pages/SharedAnalysisPage";
+import LoginPage from "./pages/LoginPage";
+import DashboardPage from "./pages/DashboardPage";
+import DiagnosticsPage from "./pages/DiagnosticsPage";
 import NotFound from "./pages/NotFound";
 import ErrorBoundary from "./components/ErrorBoundary";
 
@@ -31,16 +37,36 @@ const App = () => (
             {/* Ensure the root path strictly renders Index component */}
             <Route path="/" element={<Index />} />
 
+            <Route path="/batch" element={<BatchAnalysisPage />} />
+
             {/* Support both URL patterns with explicit paths */}
             <Route
               path="/results/:companyDomain"
               element={<CompetitorStackPage />}
             />
+            <Route
+              path="/results/:companyDomain/history"
+              element={<AnalysisHistoryPage />}
+            />
+            <Route
+              path="/results/:companyDomain/versions/:analysisId"
+              element={<CompetitorStackPage />}
+            />
             <Route
               path="/plan/:conversationId"
               element={<CompetitorStackPage />}
             />
 
+            {/* Magic-link sign in and the workspace dashboard */}
+            <Route path="/login" element={<LoginPage />} />
+            <Route path="/dashboard" element={<DashboardPage />} />
+
+            {/* Read-only analysis opened through a share link */}
+            <Route path="/share/:token" element={<SharedAnalysisPage />} />
+
+            {/* Replay of a diagnostics file downloaded from the debug logs */}
+            <Route path="/diagnostics" element={<DiagnosticsPage />} />
+
             {/* Add a catch-all route for 404 handling */}
             <Route path="*" element={<NotFound />} />
           </Routes>
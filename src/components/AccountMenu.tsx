@@ -0,0 +1,59 @@
+/**
+ * Sign-in link, or dashboard and sign-out actions for signed-in users
+ */
+import { Link, useNavigate } from "react-router-dom";
+import { LayoutDashboard, LogIn, LogOut } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { signOut } from "@/services/authService";
+
+const AccountMenu = () => {
+  const navigate = useNavigate();
+  const { user, isLoading } = useAuth();
+
+  const handleSignOut = async () => {
+    const result = await signOut();
+    if (result.success) {
+      navigate("/");
+    } else {
+      toast.error(result.error || "Failed to sign out");
+    }
+  };
+
+  if (isLoading) return null;
+
+  if (!user) {
+    return (
+      <Button variant="ghost" size="sm" className="text-gray-600" asChild>
+        <Link to="/login">
+          <LogIn className="h-4 w-4 mr-2" />
+          Sign in
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button variant="ghost" size="sm" className="text-gray-600" asChild>
+        <Link to="/dashboard">
+          <LayoutDashboard className="h-4 w-4 mr-2" />
+          Dashboard
+        </Link>
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-gray-600"
+        onClick={handleSignOut}
+        title={user.email}
+      >
+        <LogOut className="h-4 w-4 mr-2" />
+        Sign out
+      </Button>
+    </div>
+  );
+};
+
+export default AccountMenu;
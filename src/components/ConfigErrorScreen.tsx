@@ -0,0 +1,35 @@
+/**
+ * Screen shown at startup when the environment configuration is invalid
+ * Must not import modules that read the configuration
+ */
+import { AlertTriangle } from "lucide-react";
+
+interface ConfigErrorScreenProps {
+  errors: string[];
+}
+
+const ConfigErrorScreen = ({ errors }: ConfigErrorScreenProps) => (
+  <div className="flex items-center justify-center min-h-screen p-4 bg-gray-50">
+    <div className="max-w-lg w-full bg-white rounded-lg shadow-sm border p-6">
+      <h1 className="flex items-center gap-2 text-lg font-semibold text-red-600">
+        <AlertTriangle className="h-5 w-5" />
+        Invalid configuration
+      </h1>
+      <p className="mt-2 text-sm text-gray-600">
+        The application cannot start because these environment variables are
+        missing or invalid:
+      </p>
+      <ul className="mt-4 space-y-1 text-sm font-mono text-gray-800">
+        {errors.map((error) => (
+          <li key={error}>{error}</li>
+        ))}
+      </ul>
+      <p className="mt-4 text-sm text-gray-600">
+        Copy <code>.env.example</code> to <code>.env</code>, fill in the values
+        and restart the app.
+      </p>
+    </div>
+  </div>
+);
+
+export default ConfigErrorScreen;
@@ -7,16 +7,20 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
-  isFreeEmailDomain,
-  EMAIL_REGEX,
+  checkBusinessEmail,
   EMAIL_GATE_MESSAGES,
+  EMAIL_REJECTION_MESSAGES,
 } from "@/constants/emailGate";
 import { X, AlertCircle } from "lucide-react";
-import { addLog } from "@/services/api";
-import { addDbLog } from "./ApiLogs";
+import { submitLead } from "@/services/leadService";
+import { getUserLanguage } from "@/utils/languageDetection";
+import { createLogger } from "@/utils/logger";
+
+const log = createLogger("email-gate");
 
 interface EmailGateModalProps {
   onSuccess: (email: string) => void;
+  companyDomain: string;
   companyName: string;
   companySize?: string;
   pageUrl: string;
@@ -24,6 +28,7 @@ interface EmailGateModalProps {
 
 const EmailGateModal = ({
   onSuccess,
+  companyDomain,
   companyName,
   companySize,
   pageUrl,
@@ -32,87 +37,44 @@ const EmailGateModal = ({
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Same rules as the submit-lead function, which also checks the MX records;
+  // only the function knows the internal domains
   const validateEmail = (
     emailAddress: string
   ): { isValid: boolean; errorMessage?: string } => {
-    // Special case: Accept exactly "sss" as valid (no whitespace, case sensitive)
-    if (emailAddress === "sss") {
-      return { isValid: true };
-    }
-
-    // Check if the email matches the basic email pattern
-    if (!EMAIL_REGEX.test(emailAddress)) {
-      return {
-        isValid: false,
-        errorMessage: EMAIL_GATE_MESSAGES.INVALID_EMAIL,
-      };
-    }
-
-    // Extract the domain from the email
-    const domain = emailAddress.split("@")[1];
-
-    // Check if the domain matches any free email provider pattern
-    if (isFreeEmailDomain(domain)) {
-      return { isValid: false, errorMessage: EMAIL_GATE_MESSAGES.FREE_DOMAIN };
-    }
-
-    return { isValid: true };
+    const { isValid, reason } = checkBusinessEmail(emailAddress);
+    return isValid
+      ? { isValid: true }
+      : { isValid: false, errorMessage: EMAIL_REJECTION_MESSAGES[reason!] };
   };
 
-  const sendWebhook = async (userEmail: string) => {
-    const webhookUrl =
-      "https://hook.eu1.make.com/cs6y2v6qu0370u73mkkwp5s6kf3neoye";
-
-    const payload = {
+  const storeLead = async (userEmail: string) => {
+    const lead = {
       email: userEmail,
-      company_name: companyName,
-      company_size: companySize || "Unknown",
-      competitor_analysis_url: pageUrl,
-      created_date: new Date().toISOString(),
+      companyDomain,
+      companyName,
+      companySize,
+      pageUrl,
+      userLanguage: getUserLanguage(),
     };
 
-    try {
-      // Log the webhook request
-      addDbLog({
-        type: "query",
-        operation: "webhook",
-        data: payload,
-        timestamp: new Date().toISOString(),
-      });
+    log.info("Storing lead", lead);
 
-      const response = await fetch(webhookUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      });
+    const result = await submitLead(lead);
 
-      // Log the webhook response status
-      addDbLog({
-        type: "result",
-        operation: "webhook",
-        data: {
-          status: response.status,
-          statusText: response.statusText,
-        },
-        timestamp: new Date().toISOString(),
-      });
+    if (result.success) {
+      log.info("Lead stored", result);
+    } else {
+      log.error("Failed to store lead", result);
+    }
 
-      console.log("Webhook sent successfully", response);
-    } catch (error) {
-      console.error("Failed to send webhook:", error);
-      addDbLog({
-        type: "result",
-        operation: "webhook",
-        data: {
-          error: "Failed to send webhook",
-          details: error instanceof Error ? error.message : String(error),
-        },
-        timestamp: new Date().toISOString(),
-        status: "error",
+    if (result.isInternal) {
+      log.info("Email gate bypassed by an internal user", {
+        domain: userEmail.split("@")[1],
       });
     }
+
+    return result;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -127,12 +89,18 @@ const EmailGateModal = ({
       return;
     }
 
-    // If valid, send webhook and continue
-    try {
-      await sendWebhook(email);
-    } catch (error) {
-      console.error("Error sending webhook:", error);
-      // Continue with success even if webhook fails
+    const result = await storeLead(email);
+
+    // The server rejected the email, e.g. because its domain has no mail
+    // server, or the lead was not stored; the gate stays closed either way
+    if (!result.success) {
+      setError(
+        result.reason
+          ? EMAIL_REJECTION_MESSAGES[result.reason]
+          : EMAIL_GATE_MESSAGES.SUBMIT_FAILED
+      );
+      setIsSubmitting(false);
+      return;
     }
 
     // Clear any errors and call onSuccess
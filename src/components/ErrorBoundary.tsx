@@ -5,7 +5,9 @@
  */
 import { Component, ErrorInfo, ReactNode } from 'react';
 import ErrorState from './ErrorState';
-import { addDbLog } from './ApiLogs'; // Import for direct DB logging
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('error-boundary');
 
 interface Props {
   children: ReactNode;
@@ -31,30 +33,20 @@ class ErrorBoundary extends Component<Props, State> {
   };
 
   public static getDerivedStateFromError(error: Error): Partial<State> {
-    console.error('ErrorBoundary caught error:', error);
     return { hasError: true, error };
   }
 
   public componentDidCatch(error: Error, errorInfo: ErrorInfo) {
-    console.error('ErrorBoundary caught an error:', error, errorInfo);
-    
     // Auto-enable debug mode when error occurs
     if (this.props.onErrorOccurred) {
       this.props.onErrorOccurred(true);
     }
     
-    // Log error to our database
-    addDbLog({
-      type: 'check',
-      operation: 'ErrorBoundary Caught Error',
-      data: { 
-        error: error.message,
-        stack: error.stack,
-        componentStack: errorInfo.componentStack,
-        url: window.location.href,
-      },
-      timestamp: new Date().toISOString(),
-      status: 'error'
+    log.error('Caught error', {
+      error: error.message,
+      stack: error.stack,
+      componentStack: errorInfo.componentStack,
+      url: window.location.href,
     });
     
     this.setState({
@@ -76,23 +68,16 @@ class ErrorBoundary extends Component<Props, State> {
       const previousProps = JSON.stringify(prevProps);
       
       if (currentProps !== previousProps) {
-        console.log('ErrorBoundary: Props changed, resetting error state');
+        log.debug('Props changed, resetting error state');
         this.handleRetry();
       }
     }
   }
 
   private handleRetry = () => {
-    console.log('ErrorBoundary: Retrying after error');
-    
-    addDbLog({
-      type: 'check',
-      operation: 'ErrorBoundary Retry',
-      data: { 
-        previousError: this.state.error?.message,
-        url: window.location.href
-      },
-      timestamp: new Date().toISOString()
+    log.info('Retrying after error', {
+      previousError: this.state.error?.message,
+      url: window.location.href
     });
     
     this.setState(prevState => ({
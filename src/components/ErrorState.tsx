@@ -16,7 +16,7 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { useState } from "react";
-import { isInvalidConversationIdError } from "@/utils/pollingUtils";
+import type { ApiErrorKind } from "@/services/apiErrors";
 import { toast } from "sonner";
 import { ValidationError } from "@/utils/parsePlanData";
 
@@ -28,6 +28,7 @@ interface ErrorStateProps {
   domainName?: string;
   rawResponse?: string; // Raw response data for debugging
   validationErrors?: ValidationError[]; // Added validation errors
+  errorKind?: ApiErrorKind; // Classification of the API error, if any
 }
 
 const ErrorState = ({
@@ -38,94 +39,67 @@ const ErrorState = ({
   domainName,
   rawResponse,
   validationErrors = [],
+  errorKind,
 }: ErrorStateProps) => {
   const [showRawResponse, setShowRawResponse] = useState(false);
   const [showDebugInfo, setShowDebugInfo] = useState(false);
   const [showValidationDetails, setShowValidationDetails] = useState(false);
 
-  // Enhanced error detection with more specific content checking
-  const isEmptyPlanError =
-    message.includes("empty") ||
-    message.includes("Empty") ||
-    message.includes("no data") ||
-    message.includes("missing") ||
-    message.includes("{}") ||
-    message.includes("domain");
-
-  const isInvalidDomainError =
-    message.includes("inputs.company is required") ||
-    message.includes("non-empty string") ||
-    message.includes("Please enter a valid company domain");
-
-  const isNoConversationIdError =
-    isInvalidConversationIdError(message) ||
-    message.toLowerCase().includes("no agent response") ||
-    message.includes("conversation ID") ||
-    message.includes("invalid") ||
-    message.includes("API couldn't process");
-
-  // Added specific check for incomplete company summary
-  const isCompanySummaryError =
-    message.includes("Invalid or incomplete company summary") ||
-    message.includes("company_summary") ||
-    validationErrors.some((err) => err.field.includes("company_summary"));
+  // Structural problems found while validating the stored analysis
+  const isCompanySummaryError = validationErrors.some((err) =>
+    err.field.includes("company_summary")
+  );
 
   // Enhanced data validation checking - look for specific data structure issues
   const isDataStructureError =
     rawResponse &&
-    (rawResponse.includes('"programs_list":{}') ||
-      rawResponse.includes('"programs_list":[]') ||
-      rawResponse.includes('"content":{}') ||
+    (rawResponse.includes('"content":{}') ||
       rawResponse.includes('"content":[]') ||
       validationErrors.some(
         (err) =>
-          err.field.includes("programs_list") ||
-          err.field.includes("data structure")
+          err.field === "competitors" || err.field.includes("data structure")
       ));
 
+  const isUnknownConversationError = errorKind === "unknown_conversation";
+
   let formattedMessage = message;
-  let buttonText = "Try Again";
+  // Retrying the same domain will not help for these errors
+  let suggestDifferentDomain = true;
 
-  // Improved user-friendly message formatting with additional data structure checks
   if (isCompanySummaryError) {
     formattedMessage = domainName
       ? `We couldn't generate a complete competitor analysis for "${domainName}". The company data returned was incomplete or invalid.`
       : "The competitor analysis data is incomplete or in an unexpected format. Please try generating a new analysis.";
-    buttonText = "Try Different Domain";
   } else if (isDataStructureError) {
     formattedMessage = domainName
       ? `We found data for "${domainName}" but it appears to be incomplete or in an unexpected format. This could be due to changes in the API response structure.`
       : "The competitor analysis data is incomplete or in an unexpected format. Please try generating a new analysis.";
-    buttonText = "Try Different Domain";
-  } else if (isNoConversationIdError) {
-    formattedMessage = domainName
-      ? `We couldn't generate a competitor analysis for "${domainName}". The conversation ID appears to be invalid or the API couldn't process your request. Please try with a different domain.`
-      : "We couldn't generate a competitor analysis. The conversation ID appears to be invalid. Please try starting a new request.";
-    buttonText = "Try Different Domain";
-  } else if (isInvalidDomainError) {
+  } else if (errorKind === "client") {
     formattedMessage = domainName
       ? `"${domainName}" appears to be invalid. Please try a different company domain.`
-      : "Please enter a valid company domain.";
-    buttonText = "Try Different Domain";
-  } else if (isEmptyPlanError && domainName) {
-    formattedMessage = `No competitor analysis data available for ${domainName}. This typically happens when there isn't enough public information available for the company. Please try a different domain.`;
-    buttonText = "Try Different Domain";
-  } else if (isEmptyPlanError) {
-    formattedMessage = message.includes("domain")
-      ? message
+      : ERROR_MESSAGES.INVALID_DOMAIN;
+  } else if (errorKind === "content") {
+    formattedMessage = domainName
+      ? `No competitor analysis data available for ${domainName}. This typically happens when there isn't enough public information available for the company. Please try a different domain.`
       : `${message} Please try a different company domain.`;
-    buttonText = "Try Different Domain";
-  }
+  } else {
+    suggestDifferentDomain = false;
 
-  const handleAction =
-    (isEmptyPlanError ||
-      isInvalidDomainError ||
-      isNoConversationIdError ||
-      isCompanySummaryError ||
-      isDataStructureError) &&
-    onTryDifferentDomain
-      ? onTryDifferentDomain
-      : onRetry;
+    if (isUnknownConversationError) {
+      formattedMessage = domainName
+        ? `The analysis of "${domainName}" could not be found anymore. It may have expired. Please start a new analysis.`
+        : "The analysis could not be found anymore. It may have expired. Please start a new analysis.";
+    } else if (errorKind === "rate_limited") {
+      formattedMessage =
+        "Too many analyses are running right now. Please wait a minute and try again.";
+    } else if (errorKind === "network") {
+      formattedMessage = ERROR_MESSAGES.NETWORK_ERROR;
+    } else if (errorKind === "timeout") {
+      formattedMessage = ERROR_MESSAGES.PROCESSING_TIMEOUT;
+    } else if (errorKind === "server") {
+      formattedMessage = ERROR_MESSAGES.SERVER;
+    }
+  }
 
   const handleTryDifferentDomain = () => {
     if (onTryDifferentDomain) {
@@ -143,18 +117,6 @@ const ErrorState = ({
 
   const hasValidationErrors = validationErrors && validationErrors.length > 0;
 
-  // Additional checking for program details in raw response
-  const hasProgramDetailsInResponse =
-    rawResponse &&
-    rawResponse.includes("program_") &&
-    rawResponse.includes("details");
-
-  // Check for specific program title issues
-  const hasProgramTitleIssues =
-    rawResponse &&
-    rawResponse.includes("programs_list") &&
-    !rawResponse.includes("program_name");
-
   return (
     <Card className="w-full max-w-md shadow-md relative z-[1]">
       <CardHeader>
@@ -239,26 +201,6 @@ const ErrorState = ({
                   </AlertDescription>
                 </Alert>
               )}
-
-              {hasProgramTitleIssues && (
-                <Alert variant="destructive" className="mt-2 text-xs">
-                  <AlertDescription>
-                    The API response contains program data but program titles
-                    may be missing or in an unexpected format. This can cause
-                    programs to display with generic names.
-                  </AlertDescription>
-                </Alert>
-              )}
-
-              {hasProgramDetailsInResponse &&
-                !rawResponse.includes("program_name") && (
-                  <Alert variant="destructive" className="mt-2 text-xs">
-                    <AlertDescription>
-                      Program details were found but program names may be
-                      missing. This can affect how programs are displayed.
-                    </AlertDescription>
-                  </Alert>
-                )}
             </CollapsibleContent>
           </Collapsible>
         )}
@@ -307,21 +249,19 @@ const ErrorState = ({
           </Alert>
         )}
 
-        {isNoConversationIdError && (
+        {isUnknownConversationError && (
           <Alert className="bg-amber-50 border-amber-200 text-amber-800 text-xs text-left">
             <AlertDescription>
               <p className="font-medium">
-                The conversation ID appears to be invalid or has expired. This
-                can happen if:
+                The backend no longer knows this analysis. This can happen if:
               </p>
               <ul className="list-disc pl-5 mt-1 space-y-1">
-                <li>The API couldn't process your request</li>
-                <li>Your session has timed out</li>
+                <li>The analysis was started a long time ago</li>
+                <li>The analysis was cancelled</li>
                 <li>The backend API is experiencing issues</li>
               </ul>
               <p className="mt-2">
-                Please try generating a new competitor analysis with a different
-                domain.
+                Starting a new competitor analysis usually fixes this.
               </p>
             </AlertDescription>
           </Alert>
@@ -367,11 +307,7 @@ const ErrorState = ({
           ) : null)}
       </CardContent>
       <CardFooter className="flex justify-center gap-3 pt-2">
-        {isNoConversationIdError ||
-        isInvalidDomainError ||
-        isEmptyPlanError ||
-        isCompanySummaryError ||
-        isDataStructureError ? (
+        {suggestDifferentDomain ? (
           <Button
             onClick={handleTryDifferentDomain}
             variant="default"
@@ -14,7 +14,9 @@ import {
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { marketingJokes } from "@/utils/jokeLoader";
-import { addDbLog } from "@/components/ApiLogs";
+import { createLogger } from "@/utils/logger";
+
+const log = createLogger("loading-state");
 
 interface LoadingStateProps {
   message?: string;
@@ -26,6 +28,7 @@ interface LoadingStateProps {
   elapsedTimeOverride?: number; // For when we want to control the elapsed time display
   initialStartTime?: number; // Added to persist start time across renders
   isPaused?: boolean; // To completely pause timer updates
+  connectionStatus?: string; // How updates reach the page, e.g. live or polling
 }
 
 const LoadingState = ({
@@ -38,6 +41,7 @@ const LoadingState = ({
   elapsedTimeOverride,
   initialStartTime,
   isPaused = false,
+  connectionStatus,
 }: LoadingStateProps) => {
   const [currentJokeIndex, setCurrentJokeIndex] = useState(0);
   const [elapsedTime, setElapsedTime] = useState(elapsedTimeOverride || 0);
@@ -54,28 +58,17 @@ const LoadingState = ({
 
   // Log important events for debugging - but only once at mount
   useEffect(() => {
-    console.log(
-      `LoadingState rendered [${componentIdRef.current}]: domain=${companyDomain}, pollCount=${pollCount}, message=${message}`
-    );
-
     // Only log component mount once
-    addDbLog({
-      type: "check",
-      operation: "LoadingState Mounted",
-      data: {
-        componentId: componentIdRef.current,
-        companyDomain,
-        message,
-        pollCount,
-        progress,
-        initialStartTime,
-        timestamp: Date.now(),
-      },
-      timestamp: new Date().toISOString(),
+    log.debug("Mounted", {
+      componentId: componentIdRef.current,
+      companyDomain,
+      message,
+      pollCount,
+      progress,
+      initialStartTime,
     });
 
     return () => {
-      console.log(`LoadingState unmounted [${componentIdRef.current}]`);
       isMountedRef.current = false;
     };
   }, []);
@@ -95,10 +88,10 @@ const LoadingState = ({
       startTimeRef.current = Date.now();
     }
 
-    // Log timer start
-    console.log(
-      `Starting timer [${componentIdRef.current}] from ${startTimeRef.current}`
-    );
+    log.debug("Starting timer", {
+      componentId: componentIdRef.current,
+      startTime: startTimeRef.current,
+    });
 
     // Start the timer
     const timerId = setInterval(() => {
@@ -124,25 +117,17 @@ const LoadingState = ({
   // Check for poll count changes to adjust progress
   useEffect(() => {
     if (pollCount !== undefined && pollCount > previousCountRef.current) {
-      console.log(
-        `Poll count updated [${componentIdRef.current}]: ${pollCount} (previous: ${previousCountRef.current})`
-      );
       previousCountRef.current = pollCount;
 
       // Only log significant poll count updates (not every one) to reduce log spam
       if (pollCount % 5 === 0 || pollCount <= 3) {
-        addDbLog({
-          type: "check",
-          operation: "Poll Count Updated",
-          data: {
-            componentId: componentIdRef.current,
-            pollCount,
-            elapsedSeconds: Math.floor(
-              (Date.now() - startTimeRef.current) / 1000
-            ),
-            companyDomain,
-          },
-          timestamp: new Date().toISOString(),
+        log.debug("Poll count updated", {
+          componentId: componentIdRef.current,
+          pollCount,
+          elapsedSeconds: Math.floor(
+            (Date.now() - startTimeRef.current) / 1000
+          ),
+          companyDomain,
         });
       }
     }
@@ -202,18 +187,10 @@ const LoadingState = ({
     return () => {
       isMountedRef.current = false;
 
-      // Log unmounting
-      addDbLog({
-        type: "check",
-        operation: "LoadingState Unmounted",
-        data: {
-          componentId: componentIdRef.current,
-          elapsedSeconds: Math.floor(
-            (Date.now() - startTimeRef.current) / 1000
-          ),
-          pollCount: previousCountRef.current,
-        },
-        timestamp: new Date().toISOString(),
+      log.debug("Unmounted", {
+        componentId: componentIdRef.current,
+        elapsedSeconds: Math.floor((Date.now() - startTimeRef.current) / 1000),
+        pollCount: previousCountRef.current,
       });
 
       // Clear all timers
@@ -290,6 +267,7 @@ const LoadingState = ({
           <span className="text-sm text-gray-500">
             Time elapsed: {formatTime(elapsedTime)} · Polls: {pollCount} ·
             Domain: {companyDomain || "N/A"}
+            {connectionStatus && <> · Updates: {connectionStatus}</>}
           </span>
         </div>
 
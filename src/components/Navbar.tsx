@@ -5,6 +5,7 @@
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { APP_NAME } from '@/constants';
+import AccountMenu from '@/components/AccountMenu';
 
 interface NavbarProps {
   onNewPlan?: () => void;
@@ -31,6 +32,7 @@ const Navbar = ({ onNewPlan }: NavbarProps) => {
               New Plan
             </Button>
           )}
+          <AccountMenu />
         </nav>
       </div>
     </header>
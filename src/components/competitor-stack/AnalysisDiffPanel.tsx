@@ -0,0 +1,347 @@
+/**
+ * Panel comparing two stored snapshots of a domain's competitor analysis
+ */
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import {
+  ChevronDown,
+  ChevronUp,
+  Download,
+  GitCompare,
+  Loader2,
+  Minus,
+  Plus,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getCompetitorAnalysisById,
+  listCompetitorAnalyses,
+  type CompetitorStackSummary,
+} from "@/services/supabaseService";
+import { exportAnalysisDiffToJson } from "@/services/exportJson";
+import { diffAnalyses, type FieldChange } from "@/utils/analysisDiff";
+import { parseStoredCompetitorsData } from "@/utils/parsePlanData";
+import type { CompetitorAnalysis } from "@/services/types";
+
+interface AnalysisDiffPanelProps {
+  companyDomain: string;
+  currentAnalysisId: string;
+}
+
+// Number of snapshots offered in the version pickers
+const MAX_COMPARABLE_VERSIONS = 50;
+
+const formatVersionDate = (createdAt: string) =>
+  format(new Date(createdAt), "PPp");
+
+const FieldChangeList = ({ changes }: { changes: FieldChange[] }) => (
+  <ul className="space-y-2">
+    {changes.map((change) => (
+      <li key={change.field}>
+        <p className="font-medium text-gray-700">{change.label}</p>
+        {change.removed.map((value) => (
+          <p key={`-${value}`} className="flex items-start gap-1 text-red-600">
+            <Minus className="h-3 w-3 mt-1 shrink-0" />
+            <span className="line-through">{value}</span>
+          </p>
+        ))}
+        {change.added.map((value) => (
+          <p
+            key={`+${value}`}
+            className="flex items-start gap-1 text-green-700"
+          >
+            <Plus className="h-3 w-3 mt-1 shrink-0" />
+            <span>{value}</span>
+          </p>
+        ))}
+      </li>
+    ))}
+  </ul>
+);
+
+const AnalysisDiffPanel = ({
+  companyDomain,
+  currentAnalysisId,
+}: AnalysisDiffPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [versions, setVersions] = useState<CompetitorStackSummary[]>([]);
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>(currentAnalysisId);
+  const [snapshots, setSnapshots] = useState<{
+    from: CompetitorAnalysis;
+    to: CompetitorAnalysis;
+  } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load the list of snapshots and default to the version before the current one
+  useEffect(() => {
+    const controller = new AbortController();
+
+    listCompetitorAnalyses(
+      companyDomain,
+      0,
+      MAX_COMPARABLE_VERSIONS,
+      controller.signal
+    ).then((result) => {
+      if (controller.signal.aborted || !result.success || !result.data) return;
+      setVersions(result.data);
+
+      // Versions are listed newest first, so older ones come after the current
+      // one; never default to a newer version, which would reverse the diff
+      const currentIndex = result.data.findIndex(
+        (version) => version.id === currentAnalysisId
+      );
+      const previous =
+        currentIndex >= 0 ? result.data[currentIndex + 1] : undefined;
+      setToId(currentAnalysisId);
+      setFromId(previous?.id || "");
+      setSnapshots(null);
+    });
+
+    return () => controller.abort();
+  }, [companyDomain, currentAnalysisId]);
+
+  // Fetch and normalize both selected snapshots
+  useEffect(() => {
+    if (!isOpen || !fromId || !toId) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    Promise.all([
+      getCompetitorAnalysisById(companyDomain, fromId, controller.signal),
+      getCompetitorAnalysisById(companyDomain, toId, controller.signal),
+    ]).then(([fromResult, toResult]) => {
+      if (controller.signal.aborted) return;
+      setIsLoading(false);
+
+      const from =
+        fromResult.data &&
+        parseStoredCompetitorsData(
+          fromResult.data.competitors_data,
+          companyDomain
+        ).data;
+      const to =
+        toResult.data &&
+        parseStoredCompetitorsData(
+          toResult.data.competitors_data,
+          companyDomain
+        ).data;
+
+      if (!from || !to) {
+        toast.error("Failed to load the selected analysis versions");
+        setSnapshots(null);
+        return;
+      }
+
+      setSnapshots({ from, to });
+    });
+
+    return () => controller.abort();
+  }, [isOpen, fromId, toId, companyDomain]);
+
+  const diff = useMemo(
+    () => (snapshots ? diffAnalyses(snapshots.from, snapshots.to) : null),
+    [snapshots]
+  );
+
+  const getVersionDate = (id: string) =>
+    versions.find((version) => version.id === id)?.created_at || "";
+
+  const handleExport = () => {
+    if (!diff) return;
+    try {
+      exportAnalysisDiffToJson(diff, companyDomain, {
+        from: getVersionDate(fromId),
+        to: getVersionDate(toId),
+      });
+      toast.success("Diff exported successfully");
+    } catch (error) {
+      toast.error("Failed to export diff");
+    }
+  };
+
+  // Nothing to compare until the domain has at least two snapshots
+  if (versions.length < 2) return null;
+
+  const renderVersionSelect = (
+    value: string,
+    onChange: (id: string) => void,
+    label: string
+  ) => (
+    <div className="flex-1 min-w-[12rem]">
+      <p className="text-xs font-medium text-gray-500 mb-1">{label}</p>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select a version" />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map((version) => (
+            <SelectItem key={version.id} value={version.id}>
+              {formatVersionDate(version.created_at)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderDiff = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-8 text-gray-500">
+          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+          Comparing versions...
+        </div>
+      );
+    }
+
+    if (!fromId) {
+      return (
+        <p className="py-6 text-center text-gray-500">
+          No earlier analysis is available to compare with. Select a version to
+          compare anyway.
+        </p>
+      );
+    }
+
+    if (!diff) return null;
+
+    if (fromId === toId || !diff.hasChanges) {
+      return (
+        <p className="py-6 text-center text-gray-500">
+          No changes between the selected versions.
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-6 text-sm">
+        <div className="flex flex-wrap gap-2">
+          <Badge className="bg-green-100 text-green-700 hover:bg-green-100">
+            {diff.added.length} added
+          </Badge>
+          <Badge className="bg-red-100 text-red-700 hover:bg-red-100">
+            {diff.removed.length} dropped
+          </Badge>
+          <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100">
+            {diff.changed.length} edited
+          </Badge>
+          <Badge variant="secondary">{diff.unchangedCount} unchanged</Badge>
+        </div>
+
+        {(diff.added.length > 0 || diff.removed.length > 0) && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <h4 className="font-medium mb-2">Competitors added</h4>
+              {diff.added.length === 0 && <p className="text-gray-400">None</p>}
+              {diff.added.map((competitor) => (
+                <p
+                  key={competitor.name}
+                  className="flex items-center gap-1 text-green-700"
+                >
+                  <Plus className="h-3 w-3" />
+                  {competitor.name}
+                  {competitor.domain && competitor.domain !== competitor.name
+                    ? ` (${competitor.domain})`
+                    : ""}
+                </p>
+              ))}
+            </div>
+            <div>
+              <h4 className="font-medium mb-2">Competitors dropped</h4>
+              {diff.removed.length === 0 && (
+                <p className="text-gray-400">None</p>
+              )}
+              {diff.removed.map((competitor) => (
+                <p
+                  key={competitor.name}
+                  className="flex items-center gap-1 text-red-600"
+                >
+                  <Minus className="h-3 w-3" />
+                  {competitor.name}
+                  {competitor.domain && competitor.domain !== competitor.name
+                    ? ` (${competitor.domain})`
+                    : ""}
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {diff.companyChanges.length > 0 && (
+          <div>
+            <h4 className="font-medium mb-2">{companyDomain}</h4>
+            <FieldChangeList changes={diff.companyChanges} />
+          </div>
+        )}
+
+        {diff.changed.map((competitor) => (
+          <div key={competitor.key}>
+            <h4 className="font-medium mb-2">{competitor.name}</h4>
+            <FieldChangeList changes={competitor.changes} />
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto mt-6 px-4">
+      <Collapsible
+        open={isOpen}
+        onOpenChange={setIsOpen}
+        className="max-w-6xl mx-auto bg-white rounded-lg shadow-sm border"
+      >
+        <CollapsibleTrigger asChild>
+          <Button
+            variant="ghost"
+            className="flex w-full items-center justify-between px-6 py-4 h-auto"
+          >
+            <span className="flex items-center gap-2 font-medium">
+              <GitCompare className="h-4 w-4 text-dusty-primary" />
+              Compare with a previous analysis
+            </span>
+            {isOpen ? (
+              <ChevronUp className="h-4 w-4 text-gray-500" />
+            ) : (
+              <ChevronDown className="h-4 w-4 text-gray-500" />
+            )}
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="px-6 pb-6 space-y-6">
+          <div className="flex flex-wrap items-end gap-4">
+            {renderVersionSelect(fromId, setFromId, "From")}
+            {renderVersionSelect(toId, setToId, "To")}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={!diff || isLoading}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export diff
+            </Button>
+          </div>
+          {renderDiff()}
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
+
+export default AnalysisDiffPanel;
@@ -0,0 +1,62 @@
+/**
+ * Shows the age of the displayed analysis and offers to refresh it
+ */
+import { Clock, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ANALYSIS_FRESHNESS_TTL_DAYS } from "@/constants";
+import { formatAnalysisAge, isAnalysisStale } from "@/utils/analysisFreshness";
+
+interface AnalysisFreshnessBannerProps {
+  createdAt: string;
+  onRefresh: () => void;
+  isRefreshing?: boolean;
+}
+
+const AnalysisFreshnessBanner = ({
+  createdAt,
+  onRefresh,
+  isRefreshing = false,
+}: AnalysisFreshnessBannerProps) => {
+  const isStale = isAnalysisStale(createdAt);
+
+  return (
+    <div className="container mx-auto mt-6 px-4">
+      <div
+        className={`max-w-6xl mx-auto flex flex-wrap items-center justify-between gap-4 rounded-lg border px-4 py-3 text-sm ${
+          isStale
+            ? "border-amber-200 bg-amber-50 text-amber-800"
+            : "border-gray-200 bg-white text-gray-600"
+        }`}
+      >
+        <span className="flex items-center gap-2">
+          <Clock className="h-4 w-4" />
+          Analyzed {formatAnalysisAge(createdAt)}
+          {isStale && (
+            <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">
+              Older than {ANALYSIS_FRESHNESS_TTL_DAYS} days
+            </Badge>
+          )}
+        </span>
+        <Button
+          variant={isStale ? "default" : "outline"}
+          size="sm"
+          onClick={onRefresh}
+          disabled={isRefreshing}
+          className={
+            isStale
+              ? "bg-dusty-primary hover:bg-dusty-primary/90 text-white"
+              : ""
+          }
+        >
+          <RefreshCw
+            className={`h-4 w-4 mr-2 ${isRefreshing ? "animate-spin" : ""}`}
+          />
+          {isRefreshing ? "Starting..." : "Refresh analysis"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisFreshnessBanner;
@@ -0,0 +1,63 @@
+/**
+ * Competitor cards, comparison matrix and insights of a parsed analysis
+ */
+import CompetitorCard from "@/components/competitor-stack/CompetitorCard";
+import CompetitorComparisonMatrix from "@/components/competitor-stack/CompetitorComparisonMatrix";
+import type { CompetitorAnalysis } from "@/services/types";
+
+interface AnalysisResultsProps {
+  analysis: CompetitorAnalysis;
+}
+
+const AnalysisResults = ({ analysis }: AnalysisResultsProps) => {
+  const { company, competitors, market_insights, recommendations } = analysis;
+
+  return (
+    <div className="container mx-auto mt-8 pb-24">
+      <div className="flex-1 flex-col items-center justify-center p-4 space-y-12">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8 w-full max-w-6xl mx-auto">
+          {competitors.map((competitor, idx) => (
+            <CompetitorCard
+              key={`${competitor.name}-${idx}`}
+              competitor={competitor}
+              rank={idx + 1}
+            />
+          ))}
+        </div>
+
+        <div className="w-full max-w-6xl mx-auto">
+          <h3 className="text-xl font-semibold mb-4">
+            Side-by-side comparison
+          </h3>
+          <CompetitorComparisonMatrix
+            company={company}
+            competitors={competitors}
+          />
+        </div>
+
+        {(market_insights || recommendations?.length > 0) && (
+          <div className="bg-white rounded-lg shadow-sm border p-6 w-full max-w-6xl mx-auto space-y-4">
+            {market_insights && (
+              <div>
+                <h3 className="text-xl font-semibold mb-2">Market Insights</h3>
+                <p className="text-gray-600">{market_insights}</p>
+              </div>
+            )}
+            {recommendations?.length > 0 && (
+              <div>
+                <h3 className="text-xl font-semibold mb-2">Recommendations</h3>
+                <ul className="list-disc pl-5 text-gray-600 space-y-1">
+                  {recommendations.map((recommendation) => (
+                    <li key={recommendation}>{recommendation}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisResults;
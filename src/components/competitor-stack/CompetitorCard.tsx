@@ -0,0 +1,113 @@
+/**
+ * Card summarizing a single competitor from the normalized analysis
+ */
+import { ExternalLink, Layers, ThumbsDown, ThumbsUp } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  COMPARISON_FIELDS,
+  getFieldValues,
+} from "@/constants/competitorFields";
+import type { Competitor } from "@/services/types";
+
+interface CompetitorCardProps {
+  competitor: Competitor;
+  rank?: number;
+}
+
+const CompetitorCard = ({ competitor, rank }: CompetitorCardProps) => {
+  const strengths = getFieldValues(competitor, "strengths");
+  const weaknesses = getFieldValues(competitor, "weaknesses");
+
+  const details = COMPARISON_FIELDS.filter((field) => field.type === "text")
+    .map((field) => ({
+      label: field.label,
+      value: getFieldValues(competitor, field.key).join(", "),
+    }))
+    .filter((detail) => !!detail.value);
+
+  return (
+    <Card className="flex flex-col h-full">
+      <CardHeader className="border-b pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Layers className="h-5 w-5 text-dusty-primary shrink-0" />
+          <span className="truncate">{competitor.name}</span>
+          {rank !== undefined && (
+            <Badge variant="secondary" className="ml-auto">
+              #{rank}
+            </Badge>
+          )}
+        </CardTitle>
+        {competitor.domain && (
+          <a
+            href={`https://${competitor.domain}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-sm text-gray-500 hover:text-dusty-primary"
+          >
+            {competitor.domain}
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+        {competitor.description && (
+          <CardDescription className="pt-2">
+            {competitor.description}
+          </CardDescription>
+        )}
+      </CardHeader>
+
+      <CardContent className="flex-1 space-y-4 pt-4 text-sm">
+        {details.map((detail) => (
+          <div key={detail.label}>
+            <p className="font-medium text-gray-800">{detail.label}</p>
+            <p className="text-gray-600">{detail.value}</p>
+          </div>
+        ))}
+
+        {strengths.length > 0 && (
+          <div>
+            <p className="flex items-center gap-1 font-medium text-green-700">
+              <ThumbsUp className="h-4 w-4" />
+              Strengths
+            </p>
+            <ul className="list-disc pl-5 text-gray-600 space-y-1 mt-1">
+              {strengths.map((strength) => (
+                <li key={strength}>{strength}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {weaknesses.length > 0 && (
+          <div>
+            <p className="flex items-center gap-1 font-medium text-red-600">
+              <ThumbsDown className="h-4 w-4" />
+              Weaknesses
+            </p>
+            <ul className="list-disc pl-5 text-gray-600 space-y-1 mt-1">
+              {weaknesses.map((weakness) => (
+                <li key={weakness}>{weakness}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {details.length === 0 &&
+          strengths.length === 0 &&
+          weaknesses.length === 0 && (
+            <p className="text-gray-400 italic">
+              No detailed analysis available for this competitor.
+            </p>
+          )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CompetitorCard;
@@ -0,0 +1,103 @@
+/**
+ * Side-by-side comparison of the analyzed company and its competitors
+ */
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  COMPARISON_FIELDS,
+  ComparisonField,
+  getFieldValues,
+} from "@/constants/competitorFields";
+import type { CompanyAnalysis, Competitor } from "@/services/types";
+
+interface CompetitorComparisonMatrixProps {
+  company: CompanyAnalysis;
+  competitors: Competitor[];
+}
+
+const renderFieldValue = (
+  entity: Competitor | CompanyAnalysis,
+  field: ComparisonField
+) => {
+  const values = getFieldValues(entity, field.key);
+
+  if (values.length === 0) {
+    return <span className="text-gray-400">—</span>;
+  }
+
+  if (field.type === "list") {
+    return (
+      <ul className="list-disc pl-4 space-y-1">
+        {values.map((value) => (
+          <li key={value}>{value}</li>
+        ))}
+      </ul>
+    );
+  }
+
+  return values.join(", ");
+};
+
+const CompetitorComparisonMatrix = ({
+  company,
+  competitors,
+}: CompetitorComparisonMatrixProps) => {
+  // Only show the company column when the agent returned details about it
+  const showCompany = COMPARISON_FIELDS.some(
+    (field) => getFieldValues(company, field.key).length > 0
+  );
+  const columns: Array<Competitor | CompanyAnalysis> = showCompany
+    ? [company, ...competitors]
+    : competitors;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-40 min-w-[10rem]">Comparison</TableHead>
+            {columns.map((entity, index) => (
+              <TableHead
+                key={`${entity.name}-${index}`}
+                className={`min-w-[14rem] ${
+                  showCompany && index === 0
+                    ? "bg-dusty-primary/10 text-dusty-primary"
+                    : ""
+                }`}
+              >
+                {entity.name || entity.domain}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {COMPARISON_FIELDS.map((field) => (
+            <TableRow key={field.key}>
+              <TableCell className="font-medium align-top">
+                {field.label}
+              </TableCell>
+              {columns.map((entity, index) => (
+                <TableCell
+                  key={`${field.key}-${index}`}
+                  className={`align-top text-gray-600 ${
+                    showCompany && index === 0 ? "bg-dusty-primary/5" : ""
+                  }`}
+                >
+                  {renderFieldValue(entity, field)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default CompetitorComparisonMatrix;
@@ -1,42 +1,53 @@
 import { useState } from "react";
-import { FileSpreadsheet, Share2, AlertTriangle } from "lucide-react";
+import { AlertTriangle, History, ClipboardCopy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { addDbLog } from "@/components/ApiLogs";
 import { useNavigate } from "react-router-dom";
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
-import { exportCompetitorAnalysisToJson } from "@/services/exportJson";
+import { exportAnalyses, type ExportFormat } from "@/services/exportService";
+import type { CompetitorStack } from "@/services/supabaseService";
+import { analysesToMarkdown } from "@/services/exportMarkdown";
+import ExportMenu from "@/components/competitor-stack/ExportMenu";
+import ShareDialog from "@/components/competitor-stack/ShareDialog";
 
 interface CompetitorStackHeaderPageProps {
-  competitorAnalysisData: any;
+  // Without it, e.g. behind the email gate, the header has no actions
+  analysis?: CompetitorStack;
   companyDomain?: string;
+  // Hide history and sharing, e.g. on a page opened through a share link
+  readOnly?: boolean;
 }
 
 const CompetitorStackHeaderPage = ({
-  competitorAnalysisData,
+  analysis,
   companyDomain,
+  readOnly = false,
 }: CompetitorStackHeaderPageProps) => {
   const [isExporting, setIsExporting] = useState(false);
   const navigate = useNavigate();
 
-  const handleShare = () => {
-    navigator.clipboard.writeText(window.location.href);
-    toast.success("Link copied to clipboard!");
+  const handleCopyMarkdown = async () => {
+    if (!analysis) return;
+    const markdown = analysesToMarkdown([analysis]);
+    if (!markdown) {
+      toast.error("This analysis cannot be converted to Markdown");
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(markdown);
+      toast.success("Markdown copied to clipboard!");
+    } catch (error) {
+      toast.error("Failed to copy Markdown");
+    }
   };
 
-  const handleExportJSON = () => {
+  const handleExport = async (format: ExportFormat) => {
+    if (!analysis) return;
     setIsExporting(true);
     try {
-      exportCompetitorAnalysisToJson(competitorAnalysisData, companyDomain);
-      toast.success("JSON exported successfully");
+      await exportAnalyses([analysis], format);
+      toast.success(`${format.toUpperCase()} exported successfully`);
     } catch (error) {
-      toast.error("Failed to export JSON");
+      toast.error(`Failed to export ${format.toUpperCase()}`);
     } finally {
       setIsExporting(false);
     }
@@ -59,49 +70,44 @@ const CompetitorStackHeaderPage = ({
           <span className="ml-1 text-gray-500">{companyDomain}</span>
         </h1>
 
-        <div className="flex gap-2">
-          <Dialog>
-            <DialogTrigger asChild>
-              <Button variant="ghost" size="sm" className="text-gray-600">
-                <Share2 className="h-4 w-4 mr-2" />
-                Share
+        {analysis && (
+          <div className="flex gap-2">
+            {companyDomain && !readOnly && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-600"
+                onClick={() =>
+                  navigate(
+                    `/results/${encodeURIComponent(companyDomain)}/history`
+                  )
+                }
+              >
+                <History className="h-4 w-4 mr-2" />
+                History
               </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Share Competitor Analysis</DialogTitle>
-              </DialogHeader>
-              <div className="py-4">
-                <p className="text-sm text-gray-600 mb-4">
-                  This competitor analysis will be accessible via this URL for
-                  180 days. Share the link below:
-                </p>
-                <div className="flex items-center gap-2">
-                  <input
-                    type="text"
-                    readOnly
-                    value={window.location.href}
-                    className="flex-1 p-2 text-sm border rounded bg-gray-50"
-                  />
-                  <Button onClick={handleShare} size="sm">
-                    Copy Link
-                  </Button>
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+            )}
 
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleExportJSON}
-            disabled={isExporting}
-            className="text-gray-600"
-          >
-            <FileSpreadsheet className="h-4 w-4 mr-2" />
-            {isExporting ? "Exporting..." : "Export JSON"}
-          </Button>
-        </div>
+            {!readOnly && <ShareDialog analysisId={analysis.id} />}
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleCopyMarkdown}
+              className="text-gray-600"
+            >
+              <ClipboardCopy className="h-4 w-4 mr-2" />
+              Copy as Markdown
+            </Button>
+
+            <ExportMenu
+              onExport={handleExport}
+              formats={["pdf", "csv", "xlsx", "markdown", "json"]}
+              isExporting={isExporting}
+              className="text-gray-600"
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,76 @@
+/**
+ * Dropdown offering the file exports of competitor analyses
+ */
+import { ChevronDown, FileSpreadsheet, Loader2 } from "lucide-react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  MULTI_ANALYSIS_EXPORT_FORMATS,
+  type ExportFormat,
+} from "@/services/exportService";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  formats?: ExportFormat[];
+  isExporting?: boolean;
+  disabled?: boolean;
+  label?: string;
+  variant?: ButtonProps["variant"];
+  className?: string;
+}
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string }> = [
+  { format: "pdf", label: "PDF report (.pdf)" },
+  { format: "csv", label: "CSV (.csv)" },
+  { format: "xlsx", label: "Excel (.xlsx)" },
+  { format: "markdown", label: "Markdown (.md)" },
+  { format: "json", label: "JSON (.json)" },
+];
+
+const ExportMenu = ({
+  onExport,
+  formats = MULTI_ANALYSIS_EXPORT_FORMATS,
+  isExporting = false,
+  disabled = false,
+  label = "Export",
+  variant = "ghost",
+  className,
+}: ExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        variant={variant}
+        size="sm"
+        disabled={disabled || isExporting}
+        className={className}
+      >
+        {isExporting ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+        )}
+        {isExporting ? "Exporting..." : label}
+        <ChevronDown className="h-4 w-4 ml-1" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      {EXPORT_OPTIONS.filter((option) => formats.includes(option.format)).map(
+        (option) => (
+          <DropdownMenuItem
+            key={option.format}
+            onSelect={() => onExport(option.format)}
+          >
+            {option.label}
+          </DropdownMenuItem>
+        )
+      )}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default ExportMenu;
@@ -0,0 +1,178 @@
+/**
+ * Dialog creating, copying and revoking the share link of a stored analysis
+ */
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Eye, Link2Off, Loader2, Share2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  createAnalysisShare,
+  getAnalysisShare,
+  getShareUrl,
+  getStoredShareToken,
+  isShareActive,
+  revokeAnalysisShare,
+  type AnalysisShare,
+} from "@/services/shareService";
+import { SHARE_LINK_TTL_DAYS } from "@/constants";
+
+interface ShareDialogProps {
+  analysisId: string;
+}
+
+const ShareDialog = ({ analysisId }: ShareDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [share, setShare] = useState<AnalysisShare | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  // Load the link this browser created for the analysis, if any
+  useEffect(() => {
+    const manageToken = getStoredShareToken(analysisId);
+    if (!isOpen || !manageToken) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    getAnalysisShare(manageToken, controller.signal).then((result) => {
+      if (controller.signal.aborted) return;
+      setShare(result.share ?? null);
+      setIsLoading(false);
+    });
+
+    return () => controller.abort();
+  }, [isOpen, analysisId]);
+
+  const handleCreate = async () => {
+    setIsUpdating(true);
+    const result = await createAnalysisShare(analysisId);
+    setIsUpdating(false);
+
+    if (result.success && result.share) {
+      setShare(result.share);
+    } else {
+      toast.error(result.error || "Failed to create the share link");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.token));
+      toast.success("Link copied to clipboard!");
+    } catch (error) {
+      toast.error("Failed to copy the link");
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!share) return;
+    setIsUpdating(true);
+    const result = await revokeAnalysisShare(share.manage_token);
+    setIsUpdating(false);
+
+    if (result.success && result.share) {
+      setShare(result.share);
+      toast.success("Share link revoked");
+    } else {
+      toast.error(result.error || "Failed to revoke the share link");
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-6 text-gray-500">
+          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+          Loading share link...
+        </div>
+      );
+    }
+
+    if (!share || !isShareActive(share)) {
+      return (
+        <div className="space-y-4">
+          {share && (
+            <p className="text-sm text-amber-700">
+              {share.revoked_at
+                ? "Your previous link to this analysis was revoked."
+                : "Your previous link to this analysis has expired."}
+            </p>
+          )}
+          <p className="text-sm text-gray-600">
+            Create a read-only link to this version of the analysis. It stays
+            valid for {SHARE_LINK_TTL_DAYS} days unless you revoke it.
+          </p>
+          <Button onClick={handleCreate} disabled={isUpdating} size="sm">
+            {isUpdating && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Create share link
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Anyone with this link can view this version of the analysis until{" "}
+          {format(new Date(share.expires_at), "PP")}.
+        </p>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            readOnly
+            value={getShareUrl(share.token)}
+            className="flex-1 p-2 text-sm border rounded bg-gray-50"
+          />
+          <Button onClick={handleCopy} size="sm">
+            Copy Link
+          </Button>
+        </div>
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span className="flex items-center gap-1">
+            <Eye className="h-4 w-4" />
+            Opened {share.view_count}{" "}
+            {share.view_count === 1 ? "time" : "times"}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleRevoke}
+            disabled={isUpdating}
+            className="text-red-600 hover:text-red-700"
+          >
+            <Link2Off className="h-4 w-4 mr-2" />
+            Revoke link
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-gray-600">
+          <Share2 className="h-4 w-4 mr-2" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share Competitor Analysis</DialogTitle>
+        </DialogHeader>
+        <div className="py-4">{renderContent()}</div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,109 @@
+/**
+ * Application configuration read from import.meta.env
+ * Validated once at startup; main.tsx shows the configuration errors instead
+ * of loading the app when a value is missing or invalid
+ */
+import { z } from "zod";
+import { MOCK_SCENARIOS } from "../supabase/functions/_shared/analysisFixtures.ts";
+import {
+  DEFAULT_DUST_AGENT_CONFIG_ID,
+  DEFAULT_DUST_BACKEND_URL,
+} from "../supabase/functions/_shared/analysisProvider.ts";
+import type { LogThreshold } from "@/utils/logger";
+
+// Treat empty variables as unset so defaults still apply
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "" ? undefined : value), schema);
+
+const envSchema = z.object({
+  VITE_SUPABASE_URL: z
+    .string({ required_error: "Required" })
+    .url("Must be a URL"),
+  VITE_SUPABASE_ANON_KEY: z
+    .string({ required_error: "Required" })
+    .min(1, "Required"),
+  VITE_ANALYSIS_PROVIDER: optional(z.enum(["dust", "mock"]).default("dust")),
+  VITE_ANALYSIS_BACKEND_URL: optional(
+    z.string().url("Must be a URL").default(DEFAULT_DUST_BACKEND_URL)
+  ),
+  VITE_DUST_AGENT_CONFIG_ID: optional(
+    z.string().default(DEFAULT_DUST_AGENT_CONFIG_ID)
+  ),
+  VITE_MOCK_ANALYSIS_SCENARIO: optional(
+    z.enum(MOCK_SCENARIOS as [string, ...string[]]).default("success")
+  ),
+  VITE_POLL_INTERVAL_MS: optional(
+    z.coerce.number().int().min(1000, "Must be at least 1000").default(10000)
+  ),
+  VITE_MAX_POLL_ATTEMPTS: optional(
+    z.coerce.number().int().positive("Must be positive").default(40)
+  ),
+  VITE_ANALYSIS_FRESHNESS_TTL_DAYS: optional(
+    z.coerce.number().positive("Must be positive").default(30)
+  ),
+  VITE_LOG_LEVEL: optional(
+    z.enum(["debug", "info", "warn", "error", "silent"]).optional()
+  ),
+  VITE_LOG_REMOTE_URL: optional(z.string().url("Must be a URL").optional()),
+});
+
+export interface AppConfig {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  analysisProvider: "dust" | "mock";
+  analysisBackendUrl: string;
+  dustAgentConfigId: string;
+  mockAnalysisScenario: string;
+  pollInterval: number;
+  maxPollAttempts: number;
+  analysisFreshnessTtlDays: number;
+  // Console log level, silent in production unless set
+  logLevel: LogThreshold;
+  // Collector receiving warnings and errors, if any
+  logRemoteUrl?: string;
+}
+
+/**
+ * Validate environment variables and map them to the app configuration
+ * @param env - The environment, usually import.meta.env
+ * @returns The configuration, or one readable error per invalid variable
+ */
+export const parseConfig = (
+  env: Record<string, unknown>
+): { success: boolean; data?: AppConfig; errors?: string[] } => {
+  const result = envSchema.safeParse(env);
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`
+      ),
+    };
+  }
+
+  const values = result.data;
+  return {
+    success: true,
+    data: {
+      supabaseUrl: values.VITE_SUPABASE_URL,
+      supabaseAnonKey: values.VITE_SUPABASE_ANON_KEY,
+      analysisProvider: values.VITE_ANALYSIS_PROVIDER,
+      analysisBackendUrl: values.VITE_ANALYSIS_BACKEND_URL,
+      dustAgentConfigId: values.VITE_DUST_AGENT_CONFIG_ID,
+      mockAnalysisScenario: values.VITE_MOCK_ANALYSIS_SCENARIO,
+      pollInterval: values.VITE_POLL_INTERVAL_MS,
+      maxPollAttempts: values.VITE_MAX_POLL_ATTEMPTS,
+      analysisFreshnessTtlDays: values.VITE_ANALYSIS_FRESHNESS_TTL_DAYS,
+      logLevel: values.VITE_LOG_LEVEL ?? (env.PROD ? "silent" : "debug"),
+      logRemoteUrl: values.VITE_LOG_REMOTE_URL,
+    },
+  };
+};
+
+const configResult = parseConfig(import.meta.env);
+
+export const configErrors = configResult.errors ?? [];
+
+// Only read by modules loaded after main.tsx has checked configErrors
+export const config = configResult.data as AppConfig;
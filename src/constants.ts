@@ -1,7 +1,22 @@
+import { config } from "@/config";
+
 // CRITICAL: Using moderate polling interval to balance responsiveness and server load
-export const POLL_INTERVAL = 10000; // 10 seconds - reduced frequency to prevent excessive polling
+export const POLL_INTERVAL = config.pollInterval; // 10 seconds by default - reduced frequency to prevent excessive polling
 export const INITIAL_POLL_DELAY = 0; // No delay - start polling immediately
-export const MAX_POLL_ATTEMPTS = 40; // Maximum poll attempts before timing out
+export const MAX_POLL_ATTEMPTS = config.maxPollAttempts; // Maximum poll attempts before timing out
+// Time budget of a single backend request before it is retried
+export const API_REQUEST_TIMEOUT = 30000;
+
+// Stored analyses older than this are considered stale and re-analyzed
+export const ANALYSIS_FRESHNESS_TTL_DAYS = config.analysisFreshnessTtlDays;
+
+// Share links stop working after this many days (180 at most, see migration 005)
+export const SHARE_LINK_TTL_DAYS = 180;
+
+// Number of batch domains analyzed at the same time
+export const BATCH_CONCURRENCY = 3;
+// Largest list of domains accepted in a single batch
+export const MAX_BATCH_SIZE = 100;
 
 // Application name
 export const APP_NAME = "CompetitorStack - Competitor Analysis Platform";
@@ -0,0 +1,38 @@
+/**
+ * Competitor attributes shown in cards, the comparison matrix and exports
+ */
+import type { CompanyAnalysis, Competitor } from "@/services/types";
+
+export type ComparisonFieldKey =
+  | "business_model"
+  | "target_audience"
+  | "market_position"
+  | "strengths"
+  | "weaknesses";
+
+export interface ComparisonField {
+  key: ComparisonFieldKey;
+  label: string;
+  type: "text" | "list";
+}
+
+export const COMPARISON_FIELDS: ComparisonField[] = [
+  { key: "business_model", label: "Business Model", type: "text" },
+  { key: "target_audience", label: "Target Audience", type: "text" },
+  { key: "market_position", label: "Market Position", type: "text" },
+  { key: "strengths", label: "Strengths", type: "list" },
+  { key: "weaknesses", label: "Weaknesses", type: "list" },
+];
+
+/**
+ * Read a comparison field as a list of values, whatever its stored type
+ */
+export const getFieldValues = (
+  entity: Competitor | CompanyAnalysis,
+  key: ComparisonFieldKey
+): string[] => {
+  const value = entity[key];
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  if (typeof value === "string" && value.trim()) return [value.trim()];
+  return [];
+};
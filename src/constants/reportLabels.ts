@@ -0,0 +1,184 @@
+/**
+ * Labels of the PDF report, translated into the stored analysis language
+ * Only Latin-script languages are listed: the built-in PDF fonts cannot
+ * render other scripts, so those reports fall back to English labels
+ */
+import type { ComparisonFieldKey } from "@/constants/competitorFields";
+
+export interface ReportLabels {
+  title: string;
+  analyzedOn: string;
+  company: string;
+  industry: string;
+  competitors: string;
+  comparison: string;
+  marketInsights: string;
+  recommendations: string;
+  website: string;
+  page: string;
+  of: string;
+  fields: Record<ComparisonFieldKey, string>;
+}
+
+const DEFAULT_REPORT_LANGUAGE = "en";
+
+export const REPORT_LABELS: Record<string, ReportLabels> = {
+  en: {
+    title: "Competitor Analysis",
+    analyzedOn: "Analyzed on",
+    company: "Company overview",
+    industry: "Industry",
+    competitors: "Top competitors",
+    comparison: "Side-by-side comparison",
+    marketInsights: "Market insights",
+    recommendations: "Recommendations",
+    website: "Website",
+    page: "Page",
+    of: "of",
+    fields: {
+      business_model: "Business Model",
+      target_audience: "Target Audience",
+      market_position: "Market Position",
+      strengths: "Strengths",
+      weaknesses: "Weaknesses",
+    },
+  },
+  fr: {
+    title: "Analyse concurrentielle",
+    analyzedOn: "Analysé le",
+    company: "Présentation de l'entreprise",
+    industry: "Secteur",
+    competitors: "Principaux concurrents",
+    comparison: "Comparaison détaillée",
+    marketInsights: "Analyse du marché",
+    recommendations: "Recommandations",
+    website: "Site web",
+    page: "Page",
+    of: "sur",
+    fields: {
+      business_model: "Modèle économique",
+      target_audience: "Public cible",
+      market_position: "Positionnement",
+      strengths: "Forces",
+      weaknesses: "Faiblesses",
+    },
+  },
+  es: {
+    title: "Análisis de la competencia",
+    analyzedOn: "Analizado el",
+    company: "Resumen de la empresa",
+    industry: "Sector",
+    competitors: "Principales competidores",
+    comparison: "Comparación detallada",
+    marketInsights: "Perspectivas del mercado",
+    recommendations: "Recomendaciones",
+    website: "Sitio web",
+    page: "Página",
+    of: "de",
+    fields: {
+      business_model: "Modelo de negocio",
+      target_audience: "Público objetivo",
+      market_position: "Posición en el mercado",
+      strengths: "Fortalezas",
+      weaknesses: "Debilidades",
+    },
+  },
+  de: {
+    title: "Wettbewerbsanalyse",
+    analyzedOn: "Analysiert am",
+    company: "Unternehmensüberblick",
+    industry: "Branche",
+    competitors: "Wichtigste Wettbewerber",
+    comparison: "Direkter Vergleich",
+    marketInsights: "Markteinblicke",
+    recommendations: "Empfehlungen",
+    website: "Website",
+    page: "Seite",
+    of: "von",
+    fields: {
+      business_model: "Geschäftsmodell",
+      target_audience: "Zielgruppe",
+      market_position: "Marktposition",
+      strengths: "Stärken",
+      weaknesses: "Schwächen",
+    },
+  },
+  it: {
+    title: "Analisi della concorrenza",
+    analyzedOn: "Analizzato il",
+    company: "Panoramica dell'azienda",
+    industry: "Settore",
+    competitors: "Principali concorrenti",
+    comparison: "Confronto diretto",
+    marketInsights: "Approfondimenti di mercato",
+    recommendations: "Raccomandazioni",
+    website: "Sito web",
+    page: "Pagina",
+    of: "di",
+    fields: {
+      business_model: "Modello di business",
+      target_audience: "Pubblico di riferimento",
+      market_position: "Posizionamento",
+      strengths: "Punti di forza",
+      weaknesses: "Punti deboli",
+    },
+  },
+  pt: {
+    title: "Análise da concorrência",
+    analyzedOn: "Analisado em",
+    company: "Visão geral da empresa",
+    industry: "Setor",
+    competitors: "Principais concorrentes",
+    comparison: "Comparação lado a lado",
+    marketInsights: "Insights de mercado",
+    recommendations: "Recomendações",
+    website: "Site",
+    page: "Página",
+    of: "de",
+    fields: {
+      business_model: "Modelo de negócio",
+      target_audience: "Público-alvo",
+      market_position: "Posicionamento",
+      strengths: "Pontos fortes",
+      weaknesses: "Pontos fracos",
+    },
+  },
+  nl: {
+    title: "Concurrentieanalyse",
+    analyzedOn: "Geanalyseerd op",
+    company: "Bedrijfsoverzicht",
+    industry: "Sector",
+    competitors: "Belangrijkste concurrenten",
+    comparison: "Directe vergelijking",
+    marketInsights: "Marktinzichten",
+    recommendations: "Aanbevelingen",
+    website: "Website",
+    page: "Pagina",
+    of: "van",
+    fields: {
+      business_model: "Bedrijfsmodel",
+      target_audience: "Doelgroep",
+      market_position: "Marktpositie",
+      strengths: "Sterke punten",
+      weaknesses: "Zwakke punten",
+    },
+  },
+};
+
+/**
+ * Get the report labels for a stored analysis language
+ * @param language - ISO 639-1 language code, e.g. "fr"
+ * @returns The translated labels, or English ones when unsupported
+ */
+export const getReportLabels = (language?: string | null): ReportLabels => {
+  const code = (language || "").split("-")[0].toLowerCase();
+  return REPORT_LABELS[code] || REPORT_LABELS[DEFAULT_REPORT_LANGUAGE];
+};
+
+/**
+ * Get the language used to render a report for a stored analysis language
+ */
+export const getReportLanguage = (language?: string | null): string => {
+  const code = (language || "").split("-")[0].toLowerCase();
+  return REPORT_LABELS[code] ? code : DEFAULT_REPORT_LANGUAGE;
+};
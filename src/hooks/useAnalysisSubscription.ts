@@ -0,0 +1,158 @@
+/**
+ * Hook following an analysis job until its result is stored, using
+ * Supabase Realtime and falling back to polling when the channel is down
+ */
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  getCompetitorAnalysisById,
+  type CompetitorStack,
+} from "@/services/supabaseService";
+import {
+  getAnalysisJob,
+  getJobError,
+  isJobIdle,
+  runAnalysisJob,
+  type AnalysisJob,
+} from "@/services/analysisJobService";
+import { ApiError } from "@/services/apiErrors";
+import { recordPollAttempt } from "@/services/diagnostics";
+import { getProgressivePollingInterval } from "@/utils/pollingUtils";
+import {
+  startPolling,
+  type PollingScheduler,
+  type PollingSchedulerOptions,
+} from "@/utils/pollingScheduler";
+import { ERROR_MESSAGES, MAX_POLL_ATTEMPTS } from "@/constants";
+
+// Slow check restarting jobs that no worker holds while realtime is connected
+const WATCHDOG_INTERVAL = 60000;
+// Watchdog checks before giving up on the job, i.e. 15 minutes
+const MAX_WATCHDOG_CHECKS = 15;
+// Spread checks from many open tabs
+const POLL_JITTER = 0.1;
+
+export type SubscriptionMode = "connecting" | "realtime" | "polling";
+
+interface UseAnalysisSubscriptionProps {
+  jobId?: string | null;
+}
+
+export const useAnalysisSubscription = ({
+  jobId,
+}: UseAnalysisSubscriptionProps) => {
+  const [result, setResult] = useState<CompetitorStack | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [mode, setMode] = useState<SubscriptionMode>("connecting");
+
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    setMode("connecting");
+    if (!jobId) return;
+
+    // Aborts in-flight queries when the job changes or the page unmounts
+    const controller = new AbortController();
+    const { signal } = controller;
+    let isDone = false;
+    let scheduler: PollingScheduler | null = null;
+
+    const schedule = (
+      interval: PollingSchedulerOptions<void>["interval"],
+      maxAttempts: number
+    ) => {
+      scheduler?.stop();
+      scheduler = startPolling(checkJob, {
+        interval,
+        initialDelay: 0,
+        jitter: POLL_JITTER,
+        maxAttempts,
+        pauseWhenHidden: true,
+        signal,
+        onStop: (reason) => {
+          if (reason !== "max_attempts" || isDone) return;
+          finish();
+          setError(new ApiError("timeout", ERROR_MESSAGES.PROCESSING_TIMEOUT));
+        },
+      });
+    };
+
+    const finish = () => {
+      isDone = true;
+      scheduler?.stop();
+      supabase.removeChannel(channel);
+    };
+
+    const handleJob = async (job: AnalysisJob) => {
+      if (signal.aborted || isDone) return;
+
+      if (job.status === "succeeded" && job.result_id) {
+        finish();
+        const stored = await getCompetitorAnalysisById(
+          job.company_domain,
+          job.result_id,
+          signal
+        );
+        if (signal.aborted) return;
+        if (stored.success && stored.data) {
+          setResult(stored.data);
+        } else {
+          setError(
+            new ApiError(
+              "unknown",
+              stored.error || ERROR_MESSAGES.EMPTY_RESPONSE
+            )
+          );
+        }
+      } else if (job.status === "failed") {
+        finish();
+        setError(getJobError(job));
+      } else if (isJobIdle(job)) {
+        // No worker holds the job (e.g. the last invocation ran out of time)
+        void runAnalysisJob(job.id);
+      }
+    };
+
+    const checkJob = async (attempt: number, attemptSignal: AbortSignal) => {
+      recordPollAttempt(`analysis-job-${jobId}`, { time: Date.now(), attempt });
+      const jobResult = await getAnalysisJob(jobId, attemptSignal);
+      if (jobResult.success && jobResult.job) await handleJob(jobResult.job);
+    };
+
+    const channel = supabase
+      .channel(`analysis-job-${jobId}`)
+      .on<AnalysisJob>(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "analysis_jobs",
+          filter: `id=eq.${jobId}`,
+        },
+        (payload) => handleJob(payload.new)
+      )
+      .subscribe((status) => {
+        if (signal.aborted || isDone) return;
+
+        if (status === "SUBSCRIBED") {
+          setMode("realtime");
+          // The first check catches a result stored before the channel was joined
+          schedule(WATCHDOG_INTERVAL, MAX_WATCHDOG_CHECKS);
+        } else if (
+          status === "CHANNEL_ERROR" ||
+          status === "TIMED_OUT" ||
+          status === "CLOSED"
+        ) {
+          setMode("polling");
+          schedule(getProgressivePollingInterval, MAX_POLL_ATTEMPTS);
+        }
+      });
+
+    return () => {
+      controller.abort();
+      if (!isDone) finish();
+    };
+  }, [jobId]);
+
+  return { result, error, mode };
+};
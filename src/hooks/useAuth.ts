@@ -0,0 +1,37 @@
+/**
+ * Hook following the Supabase Auth session of the current visitor
+ */
+import { useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export const useAuth = () => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isActive = true;
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (!isActive) return;
+      setSession(data.session);
+      setIsLoading(false);
+    });
+
+    // Also fires when a magic link signs the visitor in
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      if (!isActive) return;
+      setSession(nextSession);
+      setIsLoading(false);
+    });
+
+    return () => {
+      isActive = false;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return { session, user: session?.user ?? null, isLoading };
+};
@@ -1,5 +1,8 @@
 
 import { useEffect, useRef, useCallback } from 'react';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('timeout');
 
 interface UseTimeoutOptions {
   onTimeout: () => void;
@@ -35,7 +38,7 @@ export const useTimeout = ({
     }
 
     timeoutRef.current = setTimeout(() => {
-      console.log('Operation timed out after 6 minutes');
+      log.debug('Operation timed out after 6 minutes');
       onTimeout();
     }, timeoutDuration);
 
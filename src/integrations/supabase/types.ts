@@ -9,6 +9,112 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      analysis_jobs: {
+        Row: {
+          id: string;
+          company_domain: string;
+          conversation_id: string;
+          user_language: string | null;
+          status: "pending" | "running" | "succeeded" | "failed";
+          attempts: number;
+          error: string | null;
+          error_kind: string | null;
+          requested_by: string | null;
+          cancel_token_hash: string | null;
+          result_id: string | null;
+          locked_until: string | null;
+          created_at: string;
+          updated_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          company_domain: string;
+          conversation_id: string;
+          user_language?: string | null;
+          status?: "pending" | "running" | "succeeded" | "failed";
+          attempts?: number;
+          error?: string | null;
+          error_kind?: string | null;
+          requested_by?: string | null;
+          cancel_token_hash?: string | null;
+          result_id?: string | null;
+          locked_until?: string | null;
+          created_at?: string;
+          updated_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          company_domain?: string;
+          conversation_id?: string;
+          user_language?: string | null;
+          status?: "pending" | "running" | "succeeded" | "failed";
+          attempts?: number;
+          error?: string | null;
+          error_kind?: string | null;
+          requested_by?: string | null;
+          cancel_token_hash?: string | null;
+          result_id?: string | null;
+          locked_until?: string | null;
+          created_at?: string;
+          updated_at?: string;
+          completed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "analysis_jobs_result_id_fkey";
+            columns: ["result_id"];
+            isOneToOne: false;
+            referencedRelation: "competitor_stack";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      analysis_shares: {
+        Row: {
+          id: string;
+          token: string;
+          manage_token: string;
+          analysis_id: string;
+          expires_at: string;
+          revoked_at: string | null;
+          view_count: number;
+          last_viewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          token?: string;
+          manage_token?: string;
+          analysis_id: string;
+          expires_at?: string;
+          revoked_at?: string | null;
+          view_count?: number;
+          last_viewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          token?: string;
+          manage_token?: string;
+          analysis_id?: string;
+          expires_at?: string;
+          revoked_at?: string | null;
+          view_count?: number;
+          last_viewed_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "analysis_shares_analysis_id_fkey";
+            columns: ["analysis_id"];
+            isOneToOne: false;
+            referencedRelation: "competitor_stack";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       competitor_stack: {
         Row: {
           id: string;
@@ -16,6 +122,7 @@ export type Database = {
           competitors_data: Json;
           created_at: string;
           user_language: string | null;
+          requested_by: string | null;
         };
         Insert: {
           id?: string;
@@ -23,6 +130,7 @@ export type Database = {
           competitors_data: Json;
           created_at?: string;
           user_language?: string | null;
+          requested_by?: string | null;
         };
         Update: {
           id?: string;
@@ -30,6 +138,87 @@ export type Database = {
           competitors_data?: Json;
           created_at?: string;
           user_language?: string | null;
+          requested_by?: string | null;
+        };
+        Relationships: [];
+      };
+      lead_webhook_outbox: {
+        Row: {
+          id: string;
+          lead_id: string;
+          status: "pending" | "delivered" | "failed";
+          attempts: number;
+          last_error: string | null;
+          next_attempt_at: string;
+          locked_until: string | null;
+          delivered_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          lead_id: string;
+          status?: "pending" | "delivered" | "failed";
+          attempts?: number;
+          last_error?: string | null;
+          next_attempt_at?: string;
+          locked_until?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          lead_id?: string;
+          status?: "pending" | "delivered" | "failed";
+          attempts?: number;
+          last_error?: string | null;
+          next_attempt_at?: string;
+          locked_until?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "lead_webhook_outbox_lead_id_fkey";
+            columns: ["lead_id"];
+            isOneToOne: true;
+            referencedRelation: "leads";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      leads: {
+        Row: {
+          id: string;
+          email: string;
+          company_domain: string;
+          company_name: string | null;
+          company_size: string | null;
+          page_url: string;
+          user_language: string | null;
+          is_internal: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          email: string;
+          company_domain: string;
+          company_name?: string | null;
+          company_size?: string | null;
+          page_url: string;
+          user_language?: string | null;
+          is_internal?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          email?: string;
+          company_domain?: string;
+          company_name?: string | null;
+          company_size?: string | null;
+          page_url?: string;
+          user_language?: string | null;
+          is_internal?: boolean;
+          created_at?: string;
         };
         Relationships: [];
       };
@@ -66,12 +255,228 @@ export type Database = {
         };
         Relationships: [];
       };
+      workspace_domains: {
+        Row: {
+          id: string;
+          workspace_id: string;
+          company_domain: string;
+          added_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          workspace_id: string;
+          company_domain: string;
+          added_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          workspace_id?: string;
+          company_domain?: string;
+          added_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "workspace_domains_workspace_id_fkey";
+            columns: ["workspace_id"];
+            isOneToOne: false;
+            referencedRelation: "workspaces";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      workspace_members: {
+        Row: {
+          workspace_id: string;
+          user_id: string;
+          role: "owner" | "member";
+          created_at: string;
+        };
+        Insert: {
+          workspace_id: string;
+          user_id: string;
+          role?: "owner" | "member";
+          created_at?: string;
+        };
+        Update: {
+          workspace_id?: string;
+          user_id?: string;
+          role?: "owner" | "member";
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey";
+            columns: ["workspace_id"];
+            isOneToOne: false;
+            referencedRelation: "workspaces";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      workspaces: {
+        Row: {
+          id: string;
+          name: string;
+          created_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_by?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_by?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      add_workspace_member: {
+        Args: { target_workspace_id: string; member_email: string };
+        Returns: {
+          workspace_id: string;
+          user_id: string;
+          role: "owner" | "member";
+          created_at: string;
+        };
+      };
+      create_analysis_share: {
+        Args: {
+          share_analysis_id: string;
+          ttl_days?: number;
+          cancel_tokens?: string[];
+        };
+        Returns: {
+          id: string;
+          token: string;
+          manage_token: string;
+          analysis_id: string;
+          expires_at: string;
+          revoked_at: string | null;
+          view_count: number;
+          last_viewed_at: string | null;
+          created_at: string;
+        };
+      };
+      create_workspace: {
+        Args: { workspace_name: string };
+        Returns: {
+          id: string;
+          name: string;
+          created_by: string;
+          created_at: string;
+        };
+      };
+      get_analysis_share: {
+        Args: { share_manage_token: string };
+        Returns: {
+          id: string;
+          token: string;
+          manage_token: string;
+          analysis_id: string;
+          expires_at: string;
+          revoked_at: string | null;
+          view_count: number;
+          last_viewed_at: string | null;
+          created_at: string;
+        }[];
+      };
+      get_competitor_analyses: {
+        Args: {
+          target_domains: string[];
+          analysis_ids: string[];
+          cancel_tokens?: string[];
+        };
+        Returns: {
+          id: string;
+          company_domain: string;
+          competitors_data: Json;
+          created_at: string;
+          user_language: string | null;
+          requested_by: string | null;
+        }[];
+      };
+      get_latest_competitor_analysis: {
+        Args: {
+          target_domain: string;
+          created_after?: string;
+          cancel_tokens?: string[];
+        };
+        Returns: {
+          id: string;
+          company_domain: string;
+          competitors_data: Json;
+          created_at: string;
+          user_language: string | null;
+          requested_by: string | null;
+        }[];
+      };
+      is_workspace_member: {
+        Args: { target_workspace_id: string };
+        Returns: boolean;
+      };
+      list_competitor_analyses: {
+        Args: {
+          target_domain: string;
+          page_offset?: number;
+          page_size?: number;
+          cancel_tokens?: string[];
+        };
+        Returns: {
+          id: string;
+          company_domain: string;
+          created_at: string;
+          user_language: string | null;
+          total_count: number;
+        }[];
+      };
+      list_workspace_analyses: {
+        Args: { target_workspace_id: string };
+        Returns: {
+          company_domain: string;
+          tracked_at: string;
+          analysis_id: string | null;
+          analyzed_at: string | null;
+          requested_by: string | null;
+        }[];
+      };
+      open_analysis_share: {
+        Args: { share_token: string };
+        Returns: {
+          id: string;
+          company_domain: string;
+          competitors_data: Json;
+          created_at: string;
+          user_language: string | null;
+          expires_at: string;
+          view_count: number;
+        }[];
+      };
+      revoke_analysis_share: {
+        Args: { share_manage_token: string };
+        Returns: {
+          id: string;
+          token: string;
+          manage_token: string;
+          analysis_id: string;
+          expires_at: string;
+          revoked_at: string | null;
+          view_count: number;
+          last_viewed_at: string | null;
+          created_at: string;
+        }[];
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -1,23 +1,31 @@
 
 import React from 'react';
 import { createRoot } from 'react-dom/client';
-import App from './App.tsx';
+import { config, configErrors } from './config';
+import ConfigErrorScreen from './components/ConfigErrorScreen';
+import { diagnosticsSink } from './services/diagnostics';
+import {
+  addLogSink,
+  createLogger,
+  createRemoteSink,
+  getStoredLogLevel,
+  setLogSinkLevel,
+} from './utils/logger';
 import './index.css';
 
 // Custom CSS for animations used in LoadingState
 import './animations.css';
 
-// For better console debugging
-console.log('Application starting with React version:', React.version);
-console.log('Environment:', import.meta.env.MODE);
-console.log('Base URL:', import.meta.env.BASE_URL);
-console.log('Initial route:', window.location.pathname || '/');
-console.log('Full URL:', window.location.href);
+const log = createLogger('app');
 
-// Log when the app is running on root path
-if (window.location.pathname === '/' || window.location.pathname === '') {
-  console.log('App running on root path, should render Index component');
-}
+// Route every log record to the console, the debug logs panel and the collector
+const configureLogging = () => {
+  setLogSinkLevel('console', getStoredLogLevel() ?? config.logLevel);
+  addLogSink('diagnostics', diagnosticsSink, 'debug');
+  if (config.logRemoteUrl) {
+    addLogSink('remote', createRemoteSink(config.logRemoteUrl), 'warn');
+  }
+};
 
 // Get the root element and render the app
 const rootElement = document.getElementById("root");
@@ -25,7 +33,22 @@ if (!rootElement) {
   throw new Error("Root element not found! Make sure there's a div with id='root' in your HTML.");
 }
 
-createRoot(rootElement).render(<App />);
+const root = createRoot(rootElement);
+
+// The app is only loaded once the configuration is valid: its modules read it on import
+if (configErrors.length > 0) {
+  log.error('Invalid configuration', configErrors);
+  root.render(<ConfigErrorScreen errors={configErrors} />);
+} else {
+  configureLogging();
+  log.debug('Application starting', {
+    reactVersion: React.version,
+    mode: import.meta.env.MODE,
+    baseUrl: import.meta.env.BASE_URL,
+    url: window.location.href,
+  });
+  import('./App.tsx').then(({ default: App }) => root.render(<App />));
+}
 
 // Register a service worker if in production
 if (import.meta.env.PROD) {
@@ -33,8 +56,8 @@ if (import.meta.env.PROD) {
     // This helps with page not found errors on Netlify
     if ('serviceWorker' in navigator) {
       navigator.serviceWorker.register('/service-worker.js', { scope: '/' })
-        .then(() => console.log('Service worker registered'))
-        .catch(err => console.error('Service worker registration failed:', err));
+        .then(() => log.debug('Service worker registered'))
+        .catch(err => log.error('Service worker registration failed', err));
     }
   });
 }
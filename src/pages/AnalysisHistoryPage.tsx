@@ -0,0 +1,299 @@
+/**
+ * History of every stored competitor analysis for a domain
+ */
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, History, Loader2 } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import ErrorBoundary from "@/components/ErrorBoundary";
+import ApiLogs from "@/components/ApiLogs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import ExportMenu from "@/components/competitor-stack/ExportMenu";
+import { useDebugMode } from "@/hooks/useDebugMode";
+import {
+  getCompetitorAnalysesByIds,
+  listCompetitorAnalyses,
+  type CompetitorStackSummary,
+} from "@/services/supabaseService";
+import { exportAnalyses, type ExportFormat } from "@/services/exportService";
+
+const HISTORY_PAGE_SIZE = 10;
+
+const AnalysisHistoryPage = () => {
+  const navigate = useNavigate();
+  const { companyDomain } = useParams<{ companyDomain: string }>();
+  const { showDebugLogs, setErrorOccurred } = useDebugMode();
+
+  const [page, setPage] = useState(0);
+  const [versions, setVersions] = useState<CompetitorStackSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Selected versions are kept while paging through the history
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (!companyDomain) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+
+    listCompetitorAnalyses(
+      companyDomain,
+      page,
+      HISTORY_PAGE_SIZE,
+      controller.signal
+    ).then((result) => {
+      if (controller.signal.aborted) return;
+      if (result.success) {
+        setVersions(result.data || []);
+        setTotal(result.total || 0);
+      } else {
+        setError(result.error || "Failed to load analysis history");
+        setErrorOccurred(true);
+      }
+      setIsLoading(false);
+    });
+
+    return () => controller.abort();
+  }, [companyDomain, page, setErrorOccurred]);
+
+  const pageCount = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+  const domainPath = `/results/${encodeURIComponent(companyDomain || "")}`;
+
+  const openVersion = (id: string) => {
+    navigate(`${domainPath}/versions/${id}`);
+  };
+
+  const toggleSelected = (ids: string[], isSelected: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (isSelected ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const isPageSelected =
+    versions.length > 0 &&
+    versions.every((version) => selectedIds.has(version.id));
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!companyDomain) return;
+    setIsExporting(true);
+    const result = await getCompetitorAnalysesByIds(
+      [companyDomain],
+      [...selectedIds]
+    );
+    setIsExporting(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to load the selected analyses");
+      return;
+    }
+
+    try {
+      // Keep the export in chronological order, newest first
+      const analyses = [...result.data].sort((a, b) =>
+        b.created_at.localeCompare(a.created_at)
+      );
+      await exportAnalyses(analyses, format);
+      toast.success("Selected analyses exported successfully");
+    } catch (error) {
+      toast.error("Failed to export the selected analyses");
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-16 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          Loading analysis history...
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="py-16 text-center text-red-500">{error}</p>;
+    }
+
+    if (versions.length === 0) {
+      return (
+        <p className="py-16 text-center text-gray-500">
+          No stored analyses were found for {companyDomain}.
+        </p>
+      );
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">
+              <Checkbox
+                checked={isPageSelected}
+                onCheckedChange={(checked) =>
+                  toggleSelected(
+                    versions.map((version) => version.id),
+                    checked === true
+                  )
+                }
+                aria-label="Select all versions on this page"
+              />
+            </TableHead>
+            <TableHead>Analyzed at</TableHead>
+            <TableHead>Language</TableHead>
+            <TableHead className="text-right">Version</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {versions.map((version, index) => (
+            <TableRow key={version.id}>
+              <TableCell>
+                <Checkbox
+                  checked={selectedIds.has(version.id)}
+                  onCheckedChange={(checked) =>
+                    toggleSelected([version.id], checked === true)
+                  }
+                  aria-label="Select version"
+                />
+              </TableCell>
+              <TableCell>
+                {format(new Date(version.created_at), "PPpp")}
+                {page === 0 && index === 0 && (
+                  <Badge
+                    variant="secondary"
+                    className="ml-2 bg-green-100 text-green-700"
+                  >
+                    Latest
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell className="uppercase text-gray-600">
+                {version.user_language || "en"}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openVersion(version.id)}
+                >
+                  Open
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Navbar />
+      <ErrorBoundary onErrorOccurred={setErrorOccurred}>
+        <section className="container mx-auto px-4 py-12 max-w-4xl">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mb-6 text-gray-600"
+            onClick={() => navigate(domainPath)}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to latest analysis
+          </Button>
+
+          <h1 className="text-2xl font-semibold flex items-center gap-2 mb-2">
+            <History className="h-6 w-6 text-dusty-primary" />
+            Analysis history
+          </h1>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+            <p className="text-gray-600">
+              Every competitor analysis stored for{" "}
+              <span className="font-medium">{companyDomain}</span>.
+            </p>
+            <ExportMenu
+              onExport={handleExport}
+              isExporting={isExporting}
+              disabled={selectedIds.size === 0}
+              label={`Export selected (${selectedIds.size})`}
+              variant="outline"
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border">
+            {renderContent()}
+          </div>
+
+          {pageCount > 1 && (
+            <Pagination className="mt-6">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage((prev) => Math.max(0, prev - 1));
+                    }}
+                  />
+                </PaginationItem>
+                {Array.from({ length: pageCount }, (_, index) => (
+                  <PaginationItem key={index}>
+                    <PaginationLink
+                      href="#"
+                      isActive={index === page}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setPage(index);
+                      }}
+                    >
+                      {index + 1}
+                    </PaginationLink>
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage((prev) => Math.min(pageCount - 1, prev + 1));
+                    }}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </section>
+      </ErrorBoundary>
+      {showDebugLogs && (
+        <div className="fixed bottom-4 right-4 z-[9999]">
+          <ApiLogs />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisHistoryPage;
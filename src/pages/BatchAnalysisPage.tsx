@@ -0,0 +1,303 @@
+/**
+ * Dashboard running competitor analyses for an uploaded or pasted domain list
+ */
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  CheckCircle2,
+  ListChecks,
+  Loader2,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import Navbar from "@/components/Navbar";
+import ErrorBoundary from "@/components/ErrorBoundary";
+import ApiLogs from "@/components/ApiLogs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useDebugMode } from "@/hooks/useDebugMode";
+import {
+  cancelBatchJobs,
+  createBatchItems,
+  isBatchItemFinished,
+  runBatchAnalysis,
+  type BatchItem,
+  type BatchItemStatus,
+} from "@/services/batchAnalysisService";
+import { getCompetitorAnalysesByIds } from "@/services/supabaseService";
+import { exportAnalyses, type ExportFormat } from "@/services/exportService";
+import ExportMenu from "@/components/competitor-stack/ExportMenu";
+import { MAX_BATCH_SIZE } from "@/constants";
+import { parseDomainList } from "@/utils/domainUtils";
+import { getUserLanguage } from "@/utils/languageDetection";
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: "Queued",
+  cached: "Cached",
+  running: "Analyzing",
+  succeeded: "Done",
+  failed: "Failed",
+  invalid: "Invalid",
+  stopped: "Stopped",
+};
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  queued: "bg-gray-100 text-gray-600 hover:bg-gray-100",
+  cached: "bg-blue-100 text-blue-700 hover:bg-blue-100",
+  running: "bg-amber-100 text-amber-700 hover:bg-amber-100",
+  succeeded: "bg-green-100 text-green-700 hover:bg-green-100",
+  failed: "bg-red-100 text-red-700 hover:bg-red-100",
+  invalid: "bg-red-50 text-red-500 hover:bg-red-50",
+  stopped: "bg-gray-100 text-gray-500 hover:bg-gray-100",
+};
+
+const BatchAnalysisPage = () => {
+  const { showDebugLogs, setErrorOccurred } = useDebugMode();
+  const [input, setInput] = useState("");
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const domains = useMemo(() => parseDomainList(input), [input]);
+  const finishedCount = items.filter(isBatchItemFinished).length;
+  const resultItems = items.filter((item) => !!item.resultId);
+  const resultIds = resultItems.map((item) => item.resultId as string);
+  const isComplete = items.length > 0 && finishedCount === items.length;
+
+  // Stop following jobs when leaving the page; they finish server-side
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleFileUpload = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setInput(await file.text());
+    event.target.value = "";
+  };
+
+  const handleStart = async () => {
+    if (domains.length === 0) {
+      toast.error("Add at least one domain to analyze");
+      return;
+    }
+    if (domains.length > MAX_BATCH_SIZE) {
+      toast.error(`A batch can contain at most ${MAX_BATCH_SIZE} domains`);
+      return;
+    }
+
+    const batchItems = createBatchItems(domains);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setItems(batchItems);
+    setIsRunning(true);
+
+    await runBatchAnalysis(batchItems, {
+      userLanguage: getUserLanguage(),
+      signal: controller.signal,
+      onItemUpdate: (index, patch) => {
+        if (patch.status === "failed") setErrorOccurred(true);
+        setItems((prev) =>
+          prev.map((item, itemIndex) =>
+            itemIndex === index ? { ...item, ...patch } : item
+          )
+        );
+      },
+    });
+
+    if (!controller.signal.aborted) {
+      toast.success("Batch analysis finished");
+    }
+    setIsRunning(false);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    setIsRunning(false);
+    void cancelBatchJobs(items);
+    setItems((prev) =>
+      prev.map((item) =>
+        isBatchItemFinished(item) ? item : { ...item, status: "stopped" }
+      )
+    );
+    toast.info("Batch stopped and the analyses it started were cancelled.");
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    const result = await getCompetitorAnalysesByIds(
+      resultItems.map((item) => item.domain),
+      resultIds
+    );
+    setIsExporting(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to load the batch results");
+      return;
+    }
+
+    try {
+      await exportAnalyses(result.data, format);
+      toast.success("Batch exported successfully");
+    } catch (error) {
+      toast.error("Failed to export batch");
+    }
+  };
+
+  const renderItemDetails = (item: BatchItem) => {
+    if (item.resultId) {
+      return (
+        <Link
+          to={`/results/${encodeURIComponent(item.domain)}/versions/${
+            item.resultId
+          }`}
+          className="text-dusty-primary hover:underline"
+        >
+          View analysis
+        </Link>
+      );
+    }
+    if (item.error) {
+      return <span className="text-red-500">{item.error}</span>;
+    }
+    return null;
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Navbar />
+      <ErrorBoundary onErrorOccurred={setErrorOccurred}>
+        <section className="container mx-auto px-4 py-12 max-w-5xl space-y-8">
+          <div>
+            <h1 className="text-2xl font-semibold flex items-center gap-2 mb-2">
+              <ListChecks className="h-6 w-6 text-dusty-primary" />
+              Batch analysis
+            </h1>
+            <p className="text-gray-600">
+              Upload a CSV or paste one domain per line. Recent analyses are
+              reused and up to {MAX_BATCH_SIZE} domains are accepted per batch.
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+            <Textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={"netflix.com\nspotify.com\nbrevo.com"}
+              rows={8}
+              disabled={isRunning}
+            />
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                className="hidden"
+                onChange={handleFileUpload}
+              />
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isRunning}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Upload CSV
+              </Button>
+              <span className="text-sm text-gray-500">
+                {domains.length} domain{domains.length === 1 ? "" : "s"}
+              </span>
+              <div className="ml-auto flex gap-2">
+                {isRunning ? (
+                  <Button variant="outline" onClick={handleCancel}>
+                    Stop
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleStart}
+                    disabled={domains.length === 0}
+                    className="bg-dusty-primary hover:bg-dusty-primary/90 text-white"
+                  >
+                    Analyze {domains.length || ""} domains
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {items.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border">
+              <div className="flex flex-wrap items-center gap-4 p-6 border-b">
+                <div className="flex-1 min-w-[12rem] space-y-2">
+                  <p className="text-sm text-gray-600 flex items-center gap-2">
+                    {isRunning ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : isComplete ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <XCircle className="h-4 w-4 text-gray-400" />
+                    )}
+                    {finishedCount} of {items.length} finished
+                  </p>
+                  <Progress value={(finishedCount / items.length) * 100} />
+                </div>
+                <ExportMenu
+                  onExport={handleExport}
+                  isExporting={isExporting}
+                  disabled={!isComplete || resultIds.length === 0}
+                  label="Export all"
+                  variant="outline"
+                />
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Domain</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={item.input}>
+                      <TableCell className="font-medium">
+                        {item.domain || item.input}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_CLASSES[item.status]}>
+                          {STATUS_LABELS[item.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {renderItemDetails(item)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </section>
+      </ErrorBoundary>
+      {showDebugLogs && (
+        <div className="fixed bottom-4 right-4 z-[9999]">
+          <ApiLogs />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchAnalysisPage;
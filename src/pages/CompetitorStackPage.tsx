@@ -1,49 +1,89 @@
 import { useParams, useNavigate, useLocation } from "react-router-dom";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import LoadingState from "@/components/LoadingState";
 import ErrorState from "@/components/ErrorState";
-import JsonViewer from "@/components/JsonViewer";
 import ApiLogs from "@/components/ApiLogs";
-import { useCompetitorStackData } from "@/hooks/useCompetitorStackData";
 import { useDebugMode } from "@/hooks/useDebugMode";
+import {
+  useAnalysisSubscription,
+  type SubscriptionMode,
+} from "@/hooks/useAnalysisSubscription";
 import { toast } from "sonner";
-import { addDbLog } from "@/components/ApiLogs";
+import { format } from "date-fns";
 import ErrorBoundary from "@/components/ErrorBoundary";
-import { ArrowLeft, Building2, Layers } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
-  storeCompetitorAnalysis,
   getCompetitorAnalysis,
+  getCompetitorAnalysisById,
+  type CompetitorStack,
 } from "@/services/supabaseService";
+import {
+  cancelAnalysisJob,
+  findActiveAnalysisJob,
+  getAnalysisJobByConversationId,
+  runAnalysisJob,
+  startAnalysisJob,
+} from "@/services/analysisJobService";
 import CompetitorStackHeaderPage from "@/components/competitor-stack/CompetitorStackHeaderPage";
+import AnalysisFreshnessBanner from "@/components/competitor-stack/AnalysisFreshnessBanner";
+import AnalysisDiffPanel from "@/components/competitor-stack/AnalysisDiffPanel";
+import AnalysisResults from "@/components/competitor-stack/AnalysisResults";
+import EmailGateModal from "@/components/EmailGateModal";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  isEmailGateUnlocked,
+  rememberEmailGateUnlock,
+  submitLead,
+} from "@/services/leadService";
+import { parseStoredCompetitorsData } from "@/utils/parsePlanData";
+import { ERROR_MESSAGES } from "@/constants";
+import { getUserLanguage } from "@/utils/languageDetection";
+
+// How the loading screen describes the way job updates reach the page
+const SUBSCRIPTION_MODE_LABELS: Record<SubscriptionMode, string> = {
+  connecting: "connecting",
+  realtime: "live",
+  polling: "checking periodically",
+};
 
 const CompetitorStackPage = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const mounted = useRef(true);
   const navigationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Aborts a refresh still starting when leaving the page
+  const refreshControllerRef = useRef<AbortController | null>(null);
   const paramCheckCompleteRef = useRef<boolean>(false);
-  const hasSavedRef = useRef(false); // Prevent duplicate saves
-  const [validationErrors, setValidationErrors] = useState<any[]>([]);
-  const [renderAttempts, setRenderAttempts] = useState<number>(0);
-  const initialRenderTimeRef = useRef<number>(Date.now());
-  const [forceDisplayData, setForceDisplayData] = useState<boolean>(false);
-  const [dbData, setDbData] = useState<any | null>(null);
-  const [hasDbData, setHasDbData] = useState(false);
-  const pollingRef = useRef<NodeJS.Timeout | null>(null);
+  const [dbData, setDbData] = useState<CompetitorStack | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isGateUnlocked, setIsGateUnlocked] = useState(isEmailGateUnlocked);
+  const { user, isLoading: isAuthLoading } = useAuth();
+  // Account email submit-lead already checked, and rejected unless unlocked
+  const [checkedAccountEmail, setCheckedAccountEmail] = useState<string | null>(
+    null
+  );
 
   // Initialize debug mode hook
   const { showDebugLogs, setErrorOccurred } = useDebugMode();
 
-  const { companyDomain, conversationId: urlConversationId } = useParams<{
+  const {
+    companyDomain,
+    conversationId: urlConversationId,
+    analysisId,
+  } = useParams<{
     companyDomain?: string;
     conversationId?: string;
+    analysisId?: string;
   }>();
 
   const urlState = location.state as {
     companyDomain?: string;
     conversationId?: string;
-    userLanguage?: string;
+    jobId?: string;
+    // The job was started from this page, so leaving it cancels the job
+    ownsJob?: boolean;
   } | null;
 
   const navigate404 = useRef(false);
@@ -67,106 +107,229 @@ const CompetitorStackPage = () => {
     mounted.current = true;
     return () => {
       mounted.current = false;
+      refreshControllerRef.current?.abort();
       if (navigationTimeoutRef.current)
         clearTimeout(navigationTimeoutRef.current);
     };
   }, []);
 
-  const effectiveConversationId = urlConversationId || urlState?.conversationId;
   const effectiveDomain = companyDomain || urlState?.companyDomain;
 
-  // Poll Supabase for competitor analysis data
+  // /plan/:conversationId links carry no domain; resolve it from the job
   useEffect(() => {
-    if (!effectiveDomain) return;
+    if (effectiveDomain || !urlConversationId) return;
+
+    const controller = new AbortController();
+
+    getAnalysisJobByConversationId(urlConversationId, controller.signal).then(
+      (result) => {
+        if (controller.signal.aborted) return;
+        const job = result.job;
+        if (!job) {
+          setErrorOccurred(true);
+          toast.error("This analysis could not be found");
+          navigate("/", { replace: true });
+          return;
+        }
+
+        const resultsPath = `/results/${encodeURIComponent(
+          job.company_domain
+        )}`;
+        if (job.result_id) {
+          navigate(`${resultsPath}/versions/${job.result_id}`, {
+            replace: true,
+          });
+        } else {
+          navigate(resultsPath, {
+            replace: true,
+            state: {
+              companyDomain: job.company_domain,
+              conversationId: job.conversation_id,
+              jobId: job.id,
+            },
+          });
+        }
+      }
+    );
 
-    let isMounted = true;
+    return () => controller.abort();
+  }, [effectiveDomain, urlConversationId, navigate, setErrorOccurred]);
 
-    const pollSupabase = async () => {
-      const result = await getCompetitorAnalysis(effectiveDomain);
+  // Load a specific historical version when one is requested
+  useEffect(() => {
+    if (!analysisId || !effectiveDomain) return;
+
+    const controller = new AbortController();
+
+    getCompetitorAnalysisById(
+      effectiveDomain,
+      analysisId,
+      controller.signal
+    ).then((result) => {
+      if (controller.signal.aborted) return;
       if (result.success && result.data) {
-        if (isMounted) setDbData(result.data);
-        if (isMounted) setHasDbData(true);
-        if (pollingRef.current) clearInterval(pollingRef.current);
+        setDbData(result.data);
+      } else {
+        setErrorOccurred(true);
+        toast.error("This analysis version could not be found");
+        navigate(
+          `/results/${encodeURIComponent(effectiveDomain || "")}/history`
+        );
       }
-    };
+    });
 
-    pollSupabase(); // Initial check
-    pollingRef.current = setInterval(pollSupabase, 5000);
+    return () => controller.abort();
+  }, [analysisId, effectiveDomain, navigate, setErrorOccurred]);
 
-    return () => {
-      isMounted = false;
-      if (pollingRef.current) clearInterval(pollingRef.current);
-    };
-  }, [effectiveDomain]);
+  const requestedJobId = urlState?.jobId;
+
+  // Show the requested job, the latest stored version, or a job left running
+  // by a closed tab
+  useEffect(() => {
+    if (!effectiveDomain || analysisId) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    setDbData(null);
+    setIsMissing(false);
+    setActiveJobId(requestedJobId || null);
+    if (requestedJobId) return;
+
+    (async () => {
+      const latest = await getCompetitorAnalysis(
+        effectiveDomain,
+        undefined,
+        signal
+      );
+      if (signal.aborted) return;
+      if (latest.success && latest.data) {
+        setDbData(latest.data);
+        return;
+      }
+
+      const active = await findActiveAnalysisJob(effectiveDomain, signal);
+      if (signal.aborted) return;
+      if (active.job) {
+        setActiveJobId(active.job.id);
+      } else {
+        setIsMissing(true);
+      }
+    })();
 
-  // Only run analysis and saving logic if no dbData
-  const shouldRunAnalysis = !hasDbData;
+    return () => controller.abort();
+  }, [effectiveDomain, analysisId, requestedJobId]);
 
+  // Follow the job; polling and saving happen in the edge function
   const {
-    data,
-    isLoading,
-    error,
-    retryConnection,
-    conversationId,
-    stopPolling,
-    rawApiData,
-    isSaving,
-    hasValidData,
-  } = useCompetitorStackData({
-    companyDomain: effectiveDomain,
-    conversationId: effectiveConversationId,
-    email: "",
+    result: jobResult,
+    error: jobError,
+    mode: subscriptionMode,
+  } = useAnalysisSubscription({
+    jobId: analysisId ? null : activeJobId,
   });
 
-  // Auto-enable debug logs on API errors
   useEffect(() => {
-    if (error) setErrorOccurred(true);
-  }, [error, setErrorOccurred]);
+    if (jobResult) setDbData(jobResult);
+  }, [jobResult]);
 
-  // Track render attempts and force display logic
   useEffect(() => {
-    setRenderAttempts((prev) => prev + 1);
-    const elapsedMs = Date.now() - initialRenderTimeRef.current;
-    if (!forceDisplayData && data) {
-      const shouldForceDisplay =
-        rawApiData?.status === "succeeded" ||
-        (renderAttempts > 3 && !!data) ||
-        elapsedMs > 15000;
-      if (shouldForceDisplay) setForceDisplayData(true);
-    }
-  }, [data, rawApiData, renderAttempts, forceDisplayData]);
+    if (jobError) setErrorOccurred(true);
+  }, [jobError, setErrorOccurred]);
+
+  // Validate and normalize the stored analysis once per row
+  const parsedAnalysis = useMemo(
+    () =>
+      dbData
+        ? parseStoredCompetitorsData(
+            dbData.competitors_data,
+            dbData.company_domain
+          )
+        : null,
+    [dbData]
+  );
 
-  // Save to Supabase only once per analysis, and only if no dbData
+  // Signed-in users pass the gate with their account email, through the same
+  // server-side checks as visitors; when it is rejected they get the modal
+  const accountEmail = user?.email ?? null;
+  const companyName = parsedAnalysis?.success
+    ? parsedAnalysis.data.company.name
+    : undefined;
   useEffect(() => {
-    if (
-      shouldRunAnalysis &&
-      rawApiData &&
-      rawApiData.status === "succeeded" &&
-      effectiveDomain &&
-      !hasSavedRef.current
-    ) {
-      hasSavedRef.current = true;
-      (async () => {
-        try {
-          const result = await storeCompetitorAnalysis(
-            effectiveDomain,
-            rawApiData,
-            urlState?.userLanguage
-          );
-          if (result.success) {
-            toast.success("Analysis saved to database");
-          } else {
-            toast.error("Failed to save analysis to database");
-          }
-        } catch (error) {
-          toast.error("Error saving analysis to database");
-        }
-      })();
+    if (isGateUnlocked || !accountEmail || !dbData) return;
+    if (checkedAccountEmail === accountEmail) return;
+
+    let cancelled = false;
+    submitLead({
+      email: accountEmail,
+      companyDomain: dbData.company_domain,
+      companyName: companyName || dbData.company_domain,
+      pageUrl: window.location.href,
+      userLanguage: getUserLanguage(),
+    }).then((result) => {
+      if (cancelled) return;
+      if (result.success) {
+        rememberEmailGateUnlock();
+        setIsGateUnlocked(true);
+      }
+      setCheckedAccountEmail(accountEmail);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isGateUnlocked, accountEmail, dbData, companyName, checkedAccountEmail]);
+
+  // Start a new analysis job; its result is stored as a new version
+  const handleRefresh = async () => {
+    if (!effectiveDomain) return;
+    const controller = new AbortController();
+    refreshControllerRef.current = controller;
+    setIsRefreshing(true);
+    try {
+      const result = await startAnalysisJob(
+        effectiveDomain,
+        getUserLanguage(),
+        controller.signal
+      );
+      if (controller.signal.aborted) return;
+
+      if (result.success && result.job) {
+        navigate(`/results/${encodeURIComponent(effectiveDomain)}`, {
+          replace: true,
+          state: {
+            companyDomain: effectiveDomain,
+            conversationId: result.job.conversation_id,
+            jobId: result.job.id,
+            ownsJob: true,
+          },
+        });
+      } else {
+        setErrorOccurred(true);
+        toast.error(result.error || "Failed to refresh analysis");
+      }
+    } catch (error) {
+      setErrorOccurred(true);
+      toast.error("An unexpected error occurred. Please try again.");
+    } finally {
+      if (mounted.current) setIsRefreshing(false);
     }
-  }, [shouldRunAnalysis, rawApiData, effectiveDomain, urlState?.userLanguage]);
+  };
+
+  const handleRetryConnection = () => {
+    if (activeJobId) void runAnalysisJob(activeJobId);
+  };
+
+  const handleGateUnlocked = () => {
+    rememberEmailGateUnlock();
+    setIsGateUnlocked(true);
+  };
 
   const handleBack = () => {
-    stopPolling();
+    refreshControllerRef.current?.abort();
+    // Stop an analysis this page started and is abandoning before it finished
+    if (urlState?.ownsJob && activeJobId && !dbData && !jobError) {
+      void cancelAnalysisJob(activeJobId);
+    }
     if (navigationTimeoutRef.current)
       clearTimeout(navigationTimeoutRef.current);
     navigationTimeoutRef.current = setTimeout(() => navigate("/"), 100);
@@ -174,72 +337,123 @@ const CompetitorStackPage = () => {
 
   const renderContent = () => {
     if (navigate404.current) return <div>Redirecting...</div>;
-    // Always show loading until dbData is found
+    if (jobError || isMissing) {
+      return (
+        <main className="flex-1 flex items-center justify-center p-4">
+          <ErrorState
+            message={
+              jobError?.message ||
+              `No competitor analysis found for ${effectiveDomain}.`
+            }
+            errorKind={jobError?.kind}
+            domainName={effectiveDomain}
+            onRetry={handleRefresh}
+            onTryDifferentDomain={handleBack}
+          />
+        </main>
+      );
+    }
+    // Show loading until the job has stored its result
     if (!dbData) {
       return (
         <main className="flex-1 flex items-center justify-center p-4">
           <LoadingState
-            message="Waiting for competitor analysis to be saved in the database..."
+            message={
+              activeJobId
+                ? "Running a fresh competitor analysis..."
+                : "Loading the stored competitor analysis..."
+            }
             onCancel={handleBack}
-            onRetryConnection={retryConnection}
+            onRetryConnection={handleRetryConnection}
             companyDomain={effectiveDomain}
+            connectionStatus={
+              activeJobId
+                ? SUBSCRIPTION_MODE_LABELS[subscriptionMode]
+                : undefined
+            }
           />
         </main>
       );
     }
     // Once dbData is found, display the results (or error if dbData is malformed)
-    let competitors: string[] = [];
-    try {
-      const content = dbData.competitors_data?.response?.data?.content;
-      if (typeof content === "string") {
-        competitors = content
-          .split(",")
-          .map((c: string) => c.trim())
-          .filter(Boolean);
-      }
-    } catch (e) {
-      competitors = [];
+    if (!parsedAnalysis?.success) {
+      return (
+        <main className="flex-1 flex items-center justify-center p-4">
+          <ErrorState
+            message={ERROR_MESSAGES.INCOMPLETE_PLAN}
+            domainName={effectiveDomain}
+            onRetry={handleBack}
+            onTryDifferentDomain={handleBack}
+            validationErrors={parsedAnalysis?.errors}
+            rawResponse={JSON.stringify(dbData.competitors_data, null, 2)}
+          />
+        </main>
+      );
+    }
+
+    // Visitors leave a business email before seeing the full results. The
+    // header gets no analysis, so it cannot be shared, copied or exported yet
+    if (!isGateUnlocked) {
+      const isCheckingAccountEmail =
+        !!accountEmail && checkedAccountEmail !== accountEmail;
+      return (
+        <>
+          <CompetitorStackHeaderPage companyDomain={effectiveDomain} />
+          {!isAuthLoading && !isCheckingAccountEmail && (
+            <EmailGateModal
+              onSuccess={handleGateUnlocked}
+              companyDomain={dbData.company_domain}
+              companyName={
+                parsedAnalysis.data.company.name || dbData.company_domain
+              }
+              pageUrl={window.location.href}
+            />
+          )}
+        </>
+      );
     }
+
     return (
       <>
         <CompetitorStackHeaderPage
           companyDomain={effectiveDomain}
-          competitorAnalysisData={dbData.competitors_data}
+          analysis={dbData}
         />
 
-        <div className="container mx-auto mt-8 pb-24">
-          <div className="flex-1 flex-col items-center justify-center p-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-8 w-full max-w-6xl mx-auto">
-              {competitors.map((domain, idx) => (
-                <div
-                  key={domain}
-                  className="bg-white rounded-lg shadow border p-6 flex flex-col"
-                >
-                  <div className="mb-4 border-b pb-2 flex items-center gap-2">
-                    <Layers className="h-5 w-5 text-dusty-primary" />
-                    <span className="text-lg font-bold">{domain}</span>
-                  </div>
-                  {/* For now, just show the domain as JSON. Replace with real data when available. */}
-                  <JsonViewer
-                    data={{ domain }}
-                    title="Competitor Data"
-                    className="w-full"
-                  />
-                </div>
-              ))}
+        {!analysisId && (
+          <AnalysisFreshnessBanner
+            createdAt={dbData.created_at}
+            onRefresh={handleRefresh}
+            isRefreshing={isRefreshing}
+          />
+        )}
+
+        <AnalysisDiffPanel
+          companyDomain={dbData.company_domain}
+          currentAnalysisId={dbData.id}
+        />
+
+        {analysisId && (
+          <div className="container mx-auto mt-6 px-4">
+            <div className="max-w-6xl mx-auto flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+              <span>
+                You are viewing the analysis from{" "}
+                {format(new Date(dbData.created_at), "PPpp")}.
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  navigate(`/results/${encodeURIComponent(effectiveDomain)}`)
+                }
+              >
+                View latest
+              </Button>
             </div>
-            {/*
-          <div className="mt-12 bg-white rounded-lg shadow-sm border p-6 w-full max-w-6xl mx-auto">
-            <h3 className="text-xl font-semibold mb-4">Complete Analysis Data</h3>
-            <JsonViewer
-              data={dbData.competitors_data}
-              title="Complete Analysis"
-              className="w-full"
-            />
           </div>
-          */}
-          </div>
-        </div>
+        )}
+
+        <AnalysisResults analysis={parsedAnalysis.data} />
       </>
     );
   };
@@ -253,7 +467,9 @@ const CompetitorStackPage = () => {
       </ErrorBoundary>
       {showDebugLogs && (
         <div className="fixed bottom-4 right-4 z-[9999]">
-          <ApiLogs />
+          <ApiLogs
+            conversationId={urlConversationId || urlState?.conversationId}
+          />
         </div>
       )}
     </div>
@@ -0,0 +1,396 @@
+/**
+ * Dashboard listing the latest analysis of every domain a workspace tracks
+ */
+import { useCallback, useEffect, useState } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { LayoutDashboard, Loader2, Plus, Trash2, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import Navbar from "@/components/Navbar";
+import ErrorBoundary from "@/components/ErrorBoundary";
+import ApiLogs from "@/components/ApiLogs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import { useDebugMode } from "@/hooks/useDebugMode";
+import {
+  addWorkspaceMember,
+  createWorkspace,
+  listTrackedAnalyses,
+  listWorkspaces,
+  trackDomain,
+  untrackDomain,
+  type TrackedAnalysis,
+  type Workspace,
+} from "@/services/workspaceService";
+import { startAnalysisJob } from "@/services/analysisJobService";
+import { formatAnalysisAge, isAnalysisStale } from "@/utils/analysisFreshness";
+import { validateDomain } from "@/utils/domainUtils";
+import { getUserLanguage } from "@/utils/languageDetection";
+
+const DashboardPage = () => {
+  const navigate = useNavigate();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { showDebugLogs, setErrorOccurred } = useDebugMode();
+
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string>("");
+  const [tracked, setTracked] = useState<TrackedAnalysis[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [newDomain, setNewDomain] = useState("");
+  const [memberEmail, setMemberEmail] = useState("");
+  const [busyDomain, setBusyDomain] = useState<string | null>(null);
+
+  // Load the workspaces of the signed-in user and select the first one
+  useEffect(() => {
+    if (!user) return;
+
+    const controller = new AbortController();
+
+    listWorkspaces(controller.signal).then((result) => {
+      if (controller.signal.aborted) return;
+      if (result.success) {
+        const data = result.data || [];
+        setWorkspaces(data);
+        setWorkspaceId((current) => current || data[0]?.id || "");
+      } else {
+        setErrorOccurred(true);
+        toast.error(result.error || "Failed to load your workspaces");
+      }
+      setIsLoading(false);
+    });
+
+    return () => controller.abort();
+  }, [user, setErrorOccurred]);
+
+  const loadTracked = useCallback(
+    async (signal?: AbortSignal) => {
+      if (!workspaceId) {
+        setTracked([]);
+        return;
+      }
+      const result = await listTrackedAnalyses(workspaceId, signal);
+      if (signal?.aborted) return;
+      if (result.success) {
+        setTracked(result.data || []);
+      } else {
+        setErrorOccurred(true);
+        toast.error(result.error || "Failed to load the tracked domains");
+      }
+    },
+    [workspaceId, setErrorOccurred]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadTracked(controller.signal);
+    return () => controller.abort();
+  }, [loadTracked]);
+
+  const handleCreateWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspaceName.trim()) return;
+
+    const result = await createWorkspace(workspaceName);
+    if (result.success && result.workspace) {
+      setWorkspaces((prev) => [...prev, result.workspace!]);
+      setWorkspaceId(result.workspace.id);
+      setWorkspaceName("");
+    } else {
+      toast.error(result.error || "Failed to create the workspace");
+    }
+  };
+
+  const handleTrackDomain = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validation = validateDomain(newDomain);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    const result = await trackDomain(workspaceId, newDomain);
+    if (result.success) {
+      setNewDomain("");
+      await loadTracked();
+    } else {
+      toast.error(result.error || "Failed to track the domain");
+    }
+  };
+
+  const handleUntrackDomain = async (domain: string) => {
+    setBusyDomain(domain);
+    const result = await untrackDomain(workspaceId, domain);
+    setBusyDomain(null);
+    if (result.success) {
+      setTracked((prev) =>
+        prev.filter((item) => item.company_domain !== domain)
+      );
+    } else {
+      toast.error(result.error || "Failed to stop tracking the domain");
+    }
+  };
+
+  // Run a new analysis and follow it on the results page
+  const handleAnalyze = async (domain: string) => {
+    setBusyDomain(domain);
+    const result = await startAnalysisJob(domain, getUserLanguage());
+    setBusyDomain(null);
+
+    if (result.success && result.job) {
+      navigate(`/results/${encodeURIComponent(domain)}`, {
+        state: {
+          companyDomain: domain,
+          conversationId: result.job.conversation_id,
+          jobId: result.job.id,
+          ownsJob: true,
+        },
+      });
+    } else {
+      setErrorOccurred(true);
+      toast.error(result.error || "Failed to start analysis");
+    }
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!memberEmail.trim()) return;
+
+    const result = await addWorkspaceMember(workspaceId, memberEmail);
+    if (result.success) {
+      toast.success(`${memberEmail.trim()} can now see this workspace`);
+      setMemberEmail("");
+    } else {
+      toast.error(result.error || "Failed to add the teammate");
+    }
+  };
+
+  if (!isAuthLoading && !user) return <Navigate to="/login" replace />;
+
+  const renderTracked = () => {
+    if (tracked.length === 0) {
+      return (
+        <p className="py-16 text-center text-gray-500">
+          This workspace does not track any domain yet.
+        </p>
+      );
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Domain</TableHead>
+            <TableHead>Latest analysis</TableHead>
+            <TableHead>Requested by</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {tracked.map((item) => (
+            <TableRow key={item.company_domain}>
+              <TableCell className="font-medium">
+                {item.company_domain}
+              </TableCell>
+              <TableCell>
+                {item.analyzed_at ? (
+                  <span title={format(new Date(item.analyzed_at), "PPpp")}>
+                    {formatAnalysisAge(item.analyzed_at)}
+                    {isAnalysisStale(item.analyzed_at) && (
+                      <Badge
+                        variant="secondary"
+                        className="ml-2 bg-amber-100 text-amber-700"
+                      >
+                        Stale
+                      </Badge>
+                    )}
+                  </span>
+                ) : (
+                  <span className="text-gray-400">Not analyzed yet</span>
+                )}
+              </TableCell>
+              <TableCell className="text-gray-600">
+                {!item.requested_by
+                  ? "—"
+                  : item.requested_by === user?.id
+                  ? "You"
+                  : "A teammate"}
+              </TableCell>
+              <TableCell className="text-right space-x-2 whitespace-nowrap">
+                {item.analysis_id && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      navigate(
+                        `/results/${encodeURIComponent(item.company_domain)}`
+                      )
+                    }
+                  >
+                    Open
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyDomain === item.company_domain}
+                  onClick={() => handleAnalyze(item.company_domain)}
+                >
+                  {item.analysis_id ? "Re-analyze" : "Analyze"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={busyDomain === item.company_domain}
+                  onClick={() => handleUntrackDomain(item.company_domain)}
+                  aria-label={`Stop tracking ${item.company_domain}`}
+                >
+                  <Trash2 className="h-4 w-4 text-gray-500" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  const renderContent = () => {
+    if (isAuthLoading || isLoading) {
+      return (
+        <div className="flex items-center justify-center py-16 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          Loading your workspaces...
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-8">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          {workspaces.length > 0 && (
+            <div className="min-w-[14rem]">
+              <p className="text-xs font-medium text-gray-500 mb-1">
+                Workspace
+              </p>
+              <Select value={workspaceId} onValueChange={setWorkspaceId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a workspace" />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaces.map((workspace) => (
+                    <SelectItem key={workspace.id} value={workspace.id}>
+                      {workspace.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <form
+            onSubmit={handleCreateWorkspace}
+            className="flex items-center gap-2"
+          >
+            <Input
+              placeholder="New workspace name"
+              value={workspaceName}
+              onChange={(e) => setWorkspaceName(e.target.value)}
+              aria-label="New workspace name"
+            />
+            <Button type="submit" variant="outline" size="sm">
+              <Plus className="h-4 w-4 mr-2" />
+              Create
+            </Button>
+          </form>
+        </div>
+
+        {workspaceId ? (
+          <>
+            <form
+              onSubmit={handleTrackDomain}
+              className="flex items-center gap-2"
+            >
+              <Input
+                placeholder="competitor.com"
+                value={newDomain}
+                onChange={(e) => setNewDomain(e.target.value)}
+                aria-label="Domain to track"
+              />
+              <Button type="submit">Track domain</Button>
+            </form>
+
+            <div className="bg-white rounded-lg shadow-sm border">
+              {renderTracked()}
+            </div>
+
+            <form
+              onSubmit={handleAddMember}
+              className="flex items-center gap-2"
+            >
+              <Input
+                type="email"
+                placeholder="teammate@company.com"
+                value={memberEmail}
+                onChange={(e) => setMemberEmail(e.target.value)}
+                aria-label="Teammate email"
+              />
+              <Button type="submit" variant="outline">
+                <UserPlus className="h-4 w-4 mr-2" />
+                Add teammate
+              </Button>
+            </form>
+            <p className="text-xs text-gray-500 -mt-6">
+              Teammates need to sign in once before they can be added.
+            </p>
+          </>
+        ) : (
+          <p className="py-16 text-center text-gray-500">
+            Create a workspace to start tracking competitor domains.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Navbar />
+      <ErrorBoundary onErrorOccurred={setErrorOccurred}>
+        <section className="container mx-auto px-4 py-12 max-w-5xl">
+          <h1 className="text-2xl font-semibold flex items-center gap-2 mb-2">
+            <LayoutDashboard className="h-6 w-6 text-dusty-primary" />
+            Dashboard
+          </h1>
+          <p className="text-gray-600 mb-8">
+            The latest competitor analysis of every domain your team tracks.
+          </p>
+          {renderContent()}
+        </section>
+      </ErrorBoundary>
+      {showDebugLogs && (
+        <div className="fixed bottom-4 right-4 z-[9999]">
+          <ApiLogs />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DashboardPage;
@@ -0,0 +1,253 @@
+/**
+ * Import view replaying a diagnostic bundle downloaded from the debug logs
+ */
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import {
+  Activity,
+  FileUp,
+  Pause,
+  Play,
+  RotateCcw,
+  ScrollText,
+} from "lucide-react";
+import Navbar from "@/components/Navbar";
+import ErrorBoundary from "@/components/ErrorBoundary";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import {
+  getReplayEvents,
+  parseDiagnosticBundle,
+  type DiagnosticBundle,
+  type ReplayEvent,
+} from "@/services/diagnostics";
+
+// Delay between two events while replaying
+const REPLAY_STEP_MS = 400;
+
+const EVENT_ICONS = {
+  log: ScrollText,
+  poll: Activity,
+};
+
+const formatOffset = (offsetMs: number) => `+${(offsetMs / 1000).toFixed(1)}s`;
+
+const ReplayEventItem = ({
+  event,
+  isCurrent,
+}: {
+  event: ReplayEvent;
+  isCurrent: boolean;
+}) => {
+  const Icon = EVENT_ICONS[event.kind];
+
+  return (
+    <li
+      className={`rounded border px-3 py-2 text-sm ${
+        event.level === "error"
+          ? "border-red-200 bg-red-50"
+          : event.level === "warn"
+          ? "border-amber-200 bg-amber-50"
+          : isCurrent
+          ? "border-dusty-primary bg-dusty-primary/5"
+          : "bg-white"
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <span className="w-16 shrink-0 font-mono text-xs text-gray-500">
+          {formatOffset(event.offsetMs)}
+        </span>
+        <Icon className="h-4 w-4 shrink-0 text-gray-500" />
+        <span className="shrink-0 text-xs text-gray-500">
+          {event.namespace}
+        </span>
+        <span className="font-medium truncate">{event.label}</span>
+        <Badge variant="secondary" className="ml-auto uppercase">
+          {event.level ?? event.kind}
+        </Badge>
+      </div>
+      {event.data !== undefined && (
+        <details className="mt-2">
+          <summary className="cursor-pointer text-xs text-gray-500">
+            Data
+          </summary>
+          <pre className="mt-1 max-h-64 overflow-auto whitespace-pre-wrap rounded bg-gray-50 p-2 text-[11px]">
+            {JSON.stringify(event.data, null, 2)}
+          </pre>
+        </details>
+      )}
+    </li>
+  );
+};
+
+const DiagnosticsPage = () => {
+  const [bundle, setBundle] = useState<DiagnosticBundle | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const events = useMemo(
+    () => (bundle ? getReplayEvents(bundle) : []),
+    [bundle]
+  );
+
+  // Reveal one more event per step until the end of the timeline
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (position >= events.length) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(
+      () => setPosition((prev) => prev + 1),
+      REPLAY_STEP_MS
+    );
+    return () => clearTimeout(timer);
+  }, [isPlaying, position, events.length]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const result = parseDiagnosticBundle(await file.text());
+    setIsPlaying(false);
+
+    if (result.success && result.data) {
+      setBundle(result.data);
+      setError(null);
+      setPosition(getReplayEvents(result.data).length);
+    } else {
+      setBundle(null);
+      setError(result.error || "Failed to read the diagnostics file");
+    }
+  };
+
+  const togglePlaying = () => {
+    if (!isPlaying && position >= events.length) setPosition(0);
+    setIsPlaying((prev) => !prev);
+  };
+
+  const renderSummary = (bundle: DiagnosticBundle) => (
+    <div className="bg-white rounded-lg shadow-sm border p-6 grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 text-sm">
+      <p>
+        <span className="text-gray-500">Created: </span>
+        {format(new Date(bundle.createdAt), "PPpp")}
+      </p>
+      <p className="truncate">
+        <span className="text-gray-500">Session: </span>
+        {bundle.sessionId}
+      </p>
+      <p className="truncate">
+        <span className="text-gray-500">Conversation: </span>
+        {bundle.conversationId || "None"}
+      </p>
+      <p>
+        <span className="text-gray-500">Events: </span>
+        {bundle.logs.length} log records,{" "}
+        {Object.values(bundle.pollHistory).flat().length} poll attempts
+      </p>
+      {Object.entries(bundle.environment).map(([key, value]) => (
+        <p key={key} className="truncate" title={String(value)}>
+          <span className="text-gray-500">{key}: </span>
+          {String(value)}
+        </p>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Navbar />
+      <ErrorBoundary>
+        <section className="container mx-auto px-4 py-12 max-w-4xl space-y-6">
+          <div>
+            <h1 className="text-2xl font-semibold flex items-center gap-2 mb-2">
+              <FileUp className="h-6 w-6 text-dusty-primary" />
+              Replay diagnostics
+            </h1>
+            <p className="text-gray-600">
+              Open a file downloaded with "Download diagnostics" in the debug
+              logs to replay what happened in that session.
+            </p>
+          </div>
+
+          <Input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            aria-label="Diagnostics file"
+          />
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          {bundle && (
+            <>
+              {renderSummary(bundle)}
+
+              <div className="flex items-center gap-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={togglePlaying}
+                  disabled={events.length === 0}
+                >
+                  {isPlaying ? (
+                    <Pause className="h-4 w-4 mr-2" />
+                  ) : (
+                    <Play className="h-4 w-4 mr-2" />
+                  )}
+                  {isPlaying ? "Pause" : "Replay"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setIsPlaying(false);
+                    setPosition(0);
+                  }}
+                  aria-label="Back to the start"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+                <Slider
+                  value={[position]}
+                  min={0}
+                  max={events.length}
+                  step={1}
+                  onValueChange={([value]) => {
+                    setIsPlaying(false);
+                    setPosition(value);
+                  }}
+                  className="flex-1"
+                />
+                <span className="w-20 text-right text-sm text-gray-500">
+                  {position} / {events.length}
+                </span>
+              </div>
+
+              {events.length === 0 ? (
+                <p className="py-8 text-center text-gray-500">
+                  This bundle does not contain any logs.
+                </p>
+              ) : (
+                <ol className="space-y-2">
+                  {events.slice(0, position).map((event, index) => (
+                    <ReplayEventItem
+                      key={`${event.kind}-${event.time}-${index}`}
+                      event={event}
+                      isCurrent={index === position - 1}
+                    />
+                  ))}
+                </ol>
+              )}
+            </>
+          )}
+        </section>
+      </ErrorBoundary>
+    </div>
+  );
+};
+
+export default DiagnosticsPage;
@@ -1,4 +1,4 @@
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import InputForm from "@/components/InputForm";
 import {
   Rocket,
@@ -9,20 +9,30 @@ import {
   Play,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { toast } from "sonner";
-import { startAnalysis } from "@/services/api";
 import { normalizeDomain } from "@/utils/domainUtils";
 import { getUserLanguage } from "@/utils/languageDetection";
 import ApiLogs from "@/components/ApiLogs";
+import AccountMenu from "@/components/AccountMenu";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import { useDebugMode } from "@/hooks/useDebugMode";
 import { Separator } from "@/components/ui/separator";
 import { getCompetitorAnalysis } from "@/services/supabaseService";
+import {
+  findActiveAnalysisJob,
+  startAnalysisJob,
+} from "@/services/analysisJobService";
+import { isAnalysisStale } from "@/utils/analysisFreshness";
+import { createLogger } from "@/utils/logger";
+
+const log = createLogger("home");
 
 const Index = () => {
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
+  // Aborts a submission still in flight when leaving the page
+  const submitControllerRef = useRef<AbortController | null>(null);
 
   // Initialize debug mode hook
   const { showDebugLogs, setErrorOccurred } = useDebugMode();
@@ -30,46 +40,72 @@ const Index = () => {
   // Initialize language detection on component mount
   useEffect(() => {
     const detectedLanguage = getUserLanguage();
-    console.log(
-      "Language detection initialized on page load:",
-      detectedLanguage
-    );
+    log.debug("Language detection initialized on page load", {
+      language: detectedLanguage,
+    });
   }, []);
 
+  useEffect(() => () => submitControllerRef.current?.abort(), []);
+
   const handleSubmit = async (domain: string) => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    submitControllerRef.current = controller;
     setIsLoading(true);
     try {
       const normalizedDomain = normalizeDomain(domain);
 
-      // 1. Check Supabase first
-      const result = await getCompetitorAnalysis(normalizedDomain);
-      if (result.success && result.data) {
-        // Navigate to results page and pass the data
+      // 1. Check Supabase first, serving the stored analysis only while fresh
+      const result = await getCompetitorAnalysis(
+        normalizedDomain,
+        undefined,
+        signal
+      );
+      if (signal.aborted) return;
+      if (
+        result.success &&
+        result.data &&
+        !isAnalysisStale(result.data.created_at)
+      ) {
+        // The results page loads the stored analysis itself
+        navigate(`/results/${encodeURIComponent(normalizedDomain)}`);
+        setIsLoading(false);
+        return;
+      }
+
+      // 2. Resume an analysis that is already running for this domain
+      const active = await findActiveAnalysisJob(normalizedDomain, signal);
+      if (signal.aborted) return;
+      if (active.job) {
         navigate(`/results/${encodeURIComponent(normalizedDomain)}`, {
           state: {
             companyDomain: normalizedDomain,
-            competitorAnalysisData: result.data.competitors_data,
-            fromDb: true,
+            conversationId: active.job.conversation_id,
+            jobId: active.job.id,
           },
         });
-        setIsLoading(false);
         return;
       }
 
-      // 2. If not found, start analysis as before
-      const userLanguage = getUserLanguage();
-      const response = await startAnalysis(normalizedDomain);
+      // 3. Otherwise start a new analysis job stored as a new version
+      const started = await startAnalysisJob(
+        normalizedDomain,
+        getUserLanguage(),
+        signal
+      );
+      if (signal.aborted) return;
 
-      if (response.success && response.conversationId) {
+      if (started.success && started.job) {
         navigate(`/results/${encodeURIComponent(normalizedDomain)}`, {
           state: {
             companyDomain: normalizedDomain,
-            conversationId: response.conversationId,
-            userLanguage: userLanguage,
+            conversationId: started.job.conversation_id,
+            jobId: started.job.id,
+            ownsJob: true,
           },
         });
       } else {
-        const errorMessage = response.error || "Failed to start analysis";
+        const errorMessage = started.error || "Failed to start analysis";
         setErrorOccurred(true);
         toast.error(errorMessage);
         setIsLoading(false);
@@ -94,12 +130,13 @@ const Index = () => {
     <ErrorBoundary onErrorOccurred={setErrorOccurred}>
       <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 flex flex-col">
         <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-10">
-          <div className="container mx-auto flex h-16 items-center px-4">
+          <div className="container mx-auto flex h-16 items-center justify-between px-4">
             <img
               src="/lovable-uploads/3aa62476-6bd3-4794-a3d7-6136139f0630.png"
               alt="Brevo Logo"
               className="h-8"
             />
+            <AccountMenu />
           </div>
         </header>
 
@@ -129,6 +166,15 @@ const Index = () => {
                 <div className="absolute inset-0 bg-gradient-to-r from-dusty-primary/15 to-dusty-primary/10 rounded-2xl transform rotate-6 transition-all duration-300 group-hover:from-dusty-primary/25 group-hover:to-dusty-primary/20 group-hover:rotate-0"></div>
                 <div className="relative bg-white rounded-xl shadow-lg p-8 transition-all duration-300 group-hover:shadow-xl">
                   <InputForm onSubmit={handleSubmit} isLoading={isLoading} />
+                  <p className="mt-2 text-center text-sm text-gray-500">
+                    Analyzing many companies?{" "}
+                    <Link
+                      to="/batch"
+                      className="text-dusty-primary hover:underline"
+                    >
+                      Upload a list of domains
+                    </Link>
+                  </p>
                 </div>
               </div>
             </div>
@@ -0,0 +1,99 @@
+/**
+ * Sign-in page sending a Supabase Auth magic link
+ */
+import { useState } from "react";
+import { Navigate } from "react-router-dom";
+import { Loader2, Mail } from "lucide-react";
+import { z } from "zod";
+import Navbar from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/useAuth";
+import { sendMagicLink } from "@/services/authService";
+import { ERROR_MESSAGES } from "@/constants";
+
+const emailSchema = z.string().trim().email();
+
+const LoginPage = () => {
+  const { user, isLoading } = useAuth();
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!emailSchema.safeParse(email).success) {
+      setError(ERROR_MESSAGES.INVALID_EMAIL);
+      return;
+    }
+
+    setError(null);
+    setIsSending(true);
+    const result = await sendMagicLink(email);
+    setIsSending(false);
+
+    if (result.success) {
+      setSentTo(email.trim());
+    } else {
+      setError(result.error || "Failed to send the sign-in link");
+    }
+  };
+
+  if (!isLoading && user) return <Navigate to="/dashboard" replace />;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Navbar />
+      <main className="flex-1 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Sign in</CardTitle>
+            <CardDescription>
+              Save the competitors your team tracks in a workspace. We will
+              email you a link to sign in, no password needed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sentTo ? (
+              <div className="flex items-start gap-3 text-sm text-gray-600">
+                <Mail className="h-5 w-5 text-dusty-primary shrink-0" />
+                <p>
+                  Check your inbox: we sent a sign-in link to{" "}
+                  <span className="font-medium">{sentTo}</span>.
+                </p>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <Input
+                  type="email"
+                  placeholder="you@company.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  aria-label="Email address"
+                  autoFocus
+                />
+                {error && <p className="text-sm text-red-500">{error}</p>}
+                <Button type="submit" className="w-full" disabled={isSending}>
+                  {isSending && (
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  )}
+                  Send sign-in link
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default LoginPage;
@@ -0,0 +1,139 @@
+/**
+ * Read-only results page opened through a share link. It has no email gate:
+ * the link was created by someone who passed it
+ */
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Link2Off, Loader2 } from "lucide-react";
+import ErrorBoundary from "@/components/ErrorBoundary";
+import ErrorState from "@/components/ErrorState";
+import ApiLogs from "@/components/ApiLogs";
+import { Button } from "@/components/ui/button";
+import CompetitorStackHeaderPage from "@/components/competitor-stack/CompetitorStackHeaderPage";
+import AnalysisResults from "@/components/competitor-stack/AnalysisResults";
+import { useDebugMode } from "@/hooks/useDebugMode";
+import {
+  openSharedAnalysis,
+  type SharedAnalysis,
+} from "@/services/shareService";
+import { parseStoredCompetitorsData } from "@/utils/parsePlanData";
+import { ERROR_MESSAGES } from "@/constants";
+
+const SharedAnalysisPage = () => {
+  const navigate = useNavigate();
+  const { token } = useParams<{ token: string }>();
+  const { showDebugLogs, setErrorOccurred } = useDebugMode();
+
+  const [shared, setShared] = useState<SharedAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setIsUnavailable(false);
+
+    openSharedAnalysis(token, controller.signal).then((result) => {
+      if (controller.signal.aborted) return;
+      if (result.success && result.data) {
+        setShared(result.data);
+      } else {
+        setIsUnavailable(true);
+      }
+      setIsLoading(false);
+    });
+
+    return () => controller.abort();
+  }, [token]);
+
+  const parsedAnalysis = useMemo(
+    () =>
+      shared
+        ? parseStoredCompetitorsData(
+            shared.analysis.competitors_data,
+            shared.analysis.company_domain
+          )
+        : null,
+    [shared]
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-16 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          Loading the shared analysis...
+        </div>
+      );
+    }
+
+    if (isUnavailable || !shared) {
+      return (
+        <main className="flex-1 flex flex-col items-center justify-center gap-4 py-16 text-center">
+          <Link2Off className="h-10 w-10 text-gray-400" />
+          <h1 className="text-xl font-semibold">
+            This share link is no longer available
+          </h1>
+          <p className="text-gray-600 max-w-md">
+            The link may have expired or been revoked by the person who shared
+            it. Ask them for a new link, or run your own competitor analysis.
+          </p>
+          <Button onClick={() => navigate("/")}>Analyze a domain</Button>
+        </main>
+      );
+    }
+
+    if (!parsedAnalysis?.success || !parsedAnalysis.data) {
+      return (
+        <main className="flex-1 flex items-center justify-center p-4">
+          <ErrorState
+            message={ERROR_MESSAGES.INCOMPLETE_PLAN}
+            domainName={shared.analysis.company_domain}
+            onRetry={() => navigate("/")}
+            validationErrors={parsedAnalysis?.errors}
+          />
+        </main>
+      );
+    }
+
+    return (
+      <>
+        <CompetitorStackHeaderPage
+          companyDomain={shared.analysis.company_domain}
+          analysis={shared.analysis}
+          readOnly
+        />
+
+        <div className="container mx-auto mt-6 px-4">
+          <div className="max-w-6xl mx-auto rounded-lg border bg-white px-4 py-3 text-sm text-gray-600">
+            Shared analysis from{" "}
+            {format(new Date(shared.analysis.created_at), "PPpp")}. This link
+            expires on {format(new Date(shared.expiresAt), "PP")}.
+          </div>
+        </div>
+
+        <AnalysisResults analysis={parsedAnalysis.data} />
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <ErrorBoundary onErrorOccurred={setErrorOccurred}>
+        <section className="container mx-auto px-4 py-12">
+          {renderContent()}
+        </section>
+      </ErrorBoundary>
+      {showDebugLogs && (
+        <div className="fixed bottom-4 right-4 z-[9999]">
+          <ApiLogs />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedAnalysisPage;
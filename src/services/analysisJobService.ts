@@ -0,0 +1,449 @@
+/**
+ * Service for the server-side analysis jobs that poll the agent and store
+ * the result in competitor_stack, independently of the browser tab
+ */
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { cancelAnalysis, startAnalysis } from "@/services/api";
+import { getCurrentUserId } from "@/services/authService";
+import { recordPollAttempt } from "@/services/diagnostics";
+import {
+  API_ERROR_KINDS,
+  createApiError,
+  type ApiError,
+  type ApiErrorKind,
+} from "@/services/apiErrors";
+import { ERROR_MESSAGES, MAX_POLL_ATTEMPTS } from "@/constants";
+import { ABORTED_ERROR, withSignal } from "@/utils/abortUtils";
+import { normalizeDomain } from "@/utils/domainUtils";
+import { getProgressivePollingInterval } from "@/utils/pollingUtils";
+import { startPolling } from "@/utils/pollingScheduler";
+import { createLogger } from "@/utils/logger";
+import {
+  createCancelToken,
+  hashCancelToken,
+} from "../../supabase/functions/_shared/cancelToken.ts";
+
+const log = createLogger("analysis-job");
+
+export type AnalysisJob = Database["public"]["Tables"]["analysis_jobs"]["Row"];
+export type AnalysisJobStatus = AnalysisJob["status"];
+type AnalysisJobInsert =
+  Database["public"]["Tables"]["analysis_jobs"]["Insert"];
+
+// Name of the edge function that processes analysis jobs
+const PROCESS_JOBS_FUNCTION = "process-analysis-jobs";
+
+// localStorage key of the cancel tokens of the jobs created in this browser.
+// A token also proves who requested the job, which lets the browser read the
+// analysis the job stored
+const CANCEL_TOKENS_STORAGE_KEY = "analysis_job_cancel_tokens";
+// Tokens kept, the oldest jobs are forgotten first
+const MAX_STORED_CANCEL_TOKENS = 100;
+
+const readCancelTokens = (): Record<string, string> => {
+  try {
+    const stored = localStorage.getItem(CANCEL_TOKENS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    log.error("Error reading stored cancel tokens", error);
+    return {};
+  }
+};
+
+const writeCancelTokens = (tokens: Record<string, string>) => {
+  try {
+    const recent = Object.entries(tokens).slice(-MAX_STORED_CANCEL_TOKENS);
+    localStorage.setItem(
+      CANCEL_TOKENS_STORAGE_KEY,
+      JSON.stringify(Object.fromEntries(recent))
+    );
+  } catch (error) {
+    log.error("Error storing cancel tokens", error);
+  }
+};
+
+/**
+ * Get the cancel tokens of the jobs created in this browser, which the
+ * database functions check before returning the analyses the jobs stored
+ */
+export const getCancelTokens = (): string[] =>
+  Object.values(readCancelTokens());
+
+/**
+ * Check whether a job has reached a final status
+ * @param job - The analysis job
+ * @returns True when the job succeeded or failed
+ */
+export const isJobFinished = (job: Pick<AnalysisJob, "status">): boolean =>
+  job.status === "succeeded" || job.status === "failed";
+
+/**
+ * Check whether no worker currently holds the job
+ * @param job - The analysis job
+ * @returns True when the job is unfinished and its lease has expired
+ */
+export const isJobIdle = (
+  job: Pick<AnalysisJob, "status" | "locked_until">
+): boolean =>
+  !isJobFinished(job) &&
+  (!job.locked_until || new Date(job.locked_until).getTime() < Date.now());
+
+/**
+ * Get the typed error of a failed job
+ * @param job - The failed analysis job
+ * @returns The error, classified by the kind the worker recorded
+ */
+export const getJobError = (
+  job: Pick<AnalysisJob, "error" | "error_kind">
+): ApiError => {
+  const kind = API_ERROR_KINDS.find((value) => value === job.error_kind);
+  return createApiError(
+    kind ?? "unknown",
+    job.error || ERROR_MESSAGES.FAILED_GENERATION
+  );
+};
+
+/**
+ * Enqueues an analysis job for a started conversation
+ * @param domain - The company domain
+ * @param conversationId - The agent conversation ID
+ * @param userLanguage - The user's language preference
+ * @param signal - Optional signal to abort the request
+ * @returns Promise with success status and the created job
+ */
+export const createAnalysisJob = async (
+  domain: string,
+  conversationId: string,
+  userLanguage?: string,
+  signal?: AbortSignal
+): Promise<{ success: boolean; job?: AnalysisJob; error?: string }> => {
+  try {
+    // Kept by this browser so only it can cancel the job and read its result
+    const cancelToken = createCancelToken();
+    const insertData: AnalysisJobInsert = {
+      company_domain: normalizeDomain(domain),
+      conversation_id: conversationId,
+      user_language: userLanguage || "en",
+      // The stored analysis is linked to the signed-in user, if any
+      requested_by: await getCurrentUserId(),
+      cancel_token_hash: await hashCancelToken(cancelToken),
+    };
+
+    const { data, error } = await withSignal(
+      supabase.from("analysis_jobs").insert(insertData).select(),
+      signal
+    ).single();
+
+    if (error) {
+      log.error("Error creating analysis job", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    writeCancelTokens({ ...readCancelTokens(), [data.id]: cancelToken });
+    return {
+      success: true,
+      job: data,
+    };
+  } catch (error) {
+    log.error("Exception creating analysis job", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Retrieves an analysis job by its ID
+ * @param id - The job ID
+ * @param signal - Optional signal to abort the request
+ * @returns Promise with the job
+ */
+export const getAnalysisJob = async (
+  id: string,
+  signal?: AbortSignal
+): Promise<{ success: boolean; job?: AnalysisJob; error?: string }> => {
+  try {
+    const { data, error } = await withSignal(
+      supabase.from("analysis_jobs").select("*").eq("id", id),
+      signal
+    ).single();
+
+    if (error) {
+      log.error("Error retrieving analysis job", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      job: data,
+    };
+  } catch (error) {
+    log.error("Exception retrieving analysis job", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Retrieves the analysis job of a conversation, e.g. for links to /plan/:conversationId
+ * @param conversationId - The provider conversation ID
+ * @param signal - Optional signal to abort the request
+ * @returns Promise with the job, if any
+ */
+export const getAnalysisJobByConversationId = async (
+  conversationId: string,
+  signal?: AbortSignal
+): Promise<{ success: boolean; job?: AnalysisJob; error?: string }> => {
+  try {
+    const { data, error } = await withSignal(
+      supabase
+        .from("analysis_jobs")
+        .select("*")
+        .eq("conversation_id", conversationId),
+      signal
+    ).maybeSingle();
+
+    if (error) {
+      log.error("Error retrieving analysis job by conversation", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      job: data ?? undefined,
+    };
+  } catch (error) {
+    log.error("Exception retrieving analysis job by conversation", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Finds the most recent unfinished job of a domain, e.g. when the tab that
+ * started it was closed and the results page is opened again
+ * @param domain - The company domain
+ * @param signal - Optional signal to abort the request
+ * @returns Promise with the job, if any
+ */
+export const findActiveAnalysisJob = async (
+  domain: string,
+  signal?: AbortSignal
+): Promise<{ success: boolean; job?: AnalysisJob; error?: string }> => {
+  try {
+    const { data, error } = await withSignal(
+      supabase
+        .from("analysis_jobs")
+        .select("*")
+        .eq("company_domain", normalizeDomain(domain))
+        .in("status", ["pending", "running"])
+        .order("created_at", { ascending: false })
+        .limit(1),
+      signal
+    ).maybeSingle();
+
+    if (error) {
+      log.error("Error finding active analysis job", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      job: data ?? undefined,
+    };
+  } catch (error) {
+    log.error("Exception finding active analysis job", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Asks the edge function to process a job. The function keeps polling
+ * after the browser goes away, so callers do not need to await it.
+ * @param jobId - The job ID
+ * @returns Promise with success status
+ */
+export const runAnalysisJob = async (
+  jobId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { error } = await supabase.functions.invoke(PROCESS_JOBS_FUNCTION, {
+      body: { jobId },
+    });
+
+    if (error) {
+      log.error("Error running analysis job", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    log.error("Exception running analysis job", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Cancels an unfinished job and the agent conversation behind it. Only the
+ * browser that created the job, or its signed-in requester, is allowed to.
+ * @param jobId - The job ID
+ * @returns Promise with success status
+ */
+export const cancelAnalysisJob = async (
+  jobId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { [jobId]: cancelToken, ...otherTokens } = readCancelTokens();
+    const { error } = await supabase.functions.invoke(PROCESS_JOBS_FUNCTION, {
+      body: { jobId, cancel: true, cancelToken },
+    });
+
+    if (error) {
+      log.error("Error cancelling analysis job", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    writeCancelTokens(otherTokens);
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    log.error("Exception cancelling analysis job", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Starts an analysis and hands it over to a server-side job
+ * @param domain - The company domain
+ * @param userLanguage - The user's language preference
+ * @param signal - Optional signal to abort; a conversation started before the
+ * abort is cancelled instead of being left running
+ * @returns Promise with success status and the created job
+ */
+export const startAnalysisJob = async (
+  domain: string,
+  userLanguage?: string,
+  signal?: AbortSignal
+): Promise<{
+  success: boolean;
+  job?: AnalysisJob;
+  error?: string;
+  errorKind?: ApiErrorKind;
+}> => {
+  const response = await startAnalysis(domain, signal);
+  if (!response.success || !response.conversationId) {
+    return {
+      success: false,
+      error: response.error || "Failed to start analysis",
+      errorKind: response.errorKind,
+    };
+  }
+
+  if (signal?.aborted) {
+    void cancelAnalysis(response.conversationId);
+    return { success: false, error: ABORTED_ERROR };
+  }
+
+  const result = await createAnalysisJob(
+    domain,
+    response.conversationId,
+    userLanguage,
+    signal
+  );
+
+  if (!result.success) {
+    // Nobody will poll the conversation without a job
+    void cancelAnalysis(response.conversationId);
+    return result;
+  }
+
+  if (result.job) {
+    // Kick the worker right away instead of waiting for the scheduled sweep
+    void runAnalysisJob(result.job.id);
+  }
+
+  return result;
+};
+
+/**
+ * Waits until a job succeeds or fails, restarting it when no worker holds it
+ * @param jobId - The job ID
+ * @param signal - Optional signal to stop waiting
+ * @returns Promise with success status and the finished job
+ */
+export const waitForAnalysisJob = (
+  jobId: string,
+  signal?: AbortSignal
+): Promise<{ success: boolean; job?: AnalysisJob; error?: string }> =>
+  new Promise((resolve) => {
+    startPolling(
+      async (attempt, attemptSignal) => {
+        recordPollAttempt(`analysis-job-wait-${jobId}`, {
+          time: Date.now(),
+          attempt,
+        });
+        const result = await getAnalysisJob(jobId, attemptSignal);
+        if (result.job && isJobIdle(result.job)) void runAnalysisJob(jobId);
+        return result;
+      },
+      {
+        interval: getProgressivePollingInterval,
+        jitter: 0.1,
+        maxAttempts: MAX_POLL_ATTEMPTS,
+        signal,
+        isComplete: (result) => !!result.job && isJobFinished(result.job),
+        onStop: (reason, lastResult) => {
+          if (reason === "completed" && lastResult?.job) {
+            resolve({ success: true, job: lastResult.job });
+          } else {
+            resolve({
+              success: false,
+              error:
+                reason === "aborted"
+                  ? "Stopped waiting for the analysis"
+                  : reason === "max_attempts"
+                  ? ERROR_MESSAGES.PROCESSING_TIMEOUT
+                  : lastResult?.error || "Failed to follow the analysis",
+            });
+          }
+        },
+      }
+    );
+  });
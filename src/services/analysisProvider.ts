@@ -0,0 +1,30 @@
+/**
+ * Analysis provider used by the browser, selected by the app configuration
+ */
+import { config } from "@/config";
+import {
+  createAnalysisProvider,
+  type AnalysisProvider,
+} from "../../supabase/functions/_shared/analysisProvider.ts";
+
+export {
+  type AnalysisProvider,
+  type StartAnalysisResult,
+} from "../../supabase/functions/_shared/analysisProvider.ts";
+
+let provider: AnalysisProvider | null = null;
+
+/**
+ * Get the configured analysis provider, created on first use
+ */
+export const getAnalysisProvider = (): AnalysisProvider => {
+  if (!provider) {
+    provider = createAnalysisProvider({
+      provider: config.analysisProvider,
+      backendUrl: config.analysisBackendUrl,
+      agentConfigId: config.dustAgentConfigId,
+      mockScenario: config.mockAnalysisScenario,
+    });
+  }
+  return provider;
+};
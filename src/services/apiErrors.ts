@@ -0,0 +1,11 @@
+/**
+ * Typed API errors and retry policy used by the browser
+ */
+export {
+  API_ERROR_KINDS,
+  ApiError,
+  createApiError,
+  toApiError,
+  type ApiErrorKind,
+} from "../../supabase/functions/_shared/analysisErrors.ts";
+export { withRetry } from "../../supabase/functions/_shared/retry.ts";
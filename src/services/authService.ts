@@ -0,0 +1,73 @@
+/**
+ * Service for signing in with Supabase Auth magic links
+ */
+import { supabase } from "@/integrations/supabase/client";
+import { createLogger } from "@/utils/logger";
+
+const log = createLogger("auth");
+
+/**
+ * Sends a magic link signing the user in when opened
+ * @param email - The user's email address
+ * @param redirectPath - Page opened after signing in
+ * @returns Promise with success status
+ */
+export const sendMagicLink = async (
+  email: string,
+  redirectPath = "/dashboard"
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: `${window.location.origin}${redirectPath}` },
+    });
+
+    if (error) {
+      log.error("Error sending magic link", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    log.error("Exception sending magic link", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Signs the current user out
+ * @returns Promise with success status
+ */
+export const signOut = async (): Promise<{
+  success: boolean;
+  error?: string;
+}> => {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    log.error("Error signing out", error);
+    return {
+      success: false,
+      error: error.message,
+    };
+  }
+  return {
+    success: true,
+  };
+};
+
+/**
+ * Get the ID of the signed-in user from the stored session
+ * @returns The user ID, or null for anonymous visitors
+ */
+export const getCurrentUserId = async (): Promise<string | null> => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+};
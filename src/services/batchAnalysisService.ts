@@ -0,0 +1,174 @@
+/**
+ * Service running competitor analyses for a list of domains
+ */
+import { BATCH_CONCURRENCY } from "@/constants";
+import {
+  cancelAnalysisJob,
+  findActiveAnalysisJob,
+  startAnalysisJob,
+  waitForAnalysisJob,
+} from "@/services/analysisJobService";
+import { getCompetitorAnalysis } from "@/services/supabaseService";
+import { isAnalysisStale } from "@/utils/analysisFreshness";
+import { normalizeDomain, validateDomain } from "@/utils/domainUtils";
+
+export type BatchItemStatus =
+  | "queued"
+  | "cached"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "invalid"
+  | "stopped";
+
+export interface BatchItem {
+  input: string;
+  domain: string;
+  status: BatchItemStatus;
+  jobId?: string;
+  // The batch started the job rather than joining one already running
+  ownsJob?: boolean;
+  resultId?: string;
+  error?: string;
+}
+
+interface RunBatchOptions {
+  concurrency?: number;
+  userLanguage?: string;
+  signal?: AbortSignal;
+  onItemUpdate: (index: number, patch: Partial<BatchItem>) => void;
+}
+
+/**
+ * Builds the batch items for a list of entered domains
+ * @param inputs - The domains as entered or uploaded
+ * @returns One item per domain, invalid domains already marked
+ */
+export const createBatchItems = (inputs: string[]): BatchItem[] =>
+  inputs.map((input) => {
+    const validation = validateDomain(input);
+    return {
+      input,
+      domain: normalizeDomain(input),
+      status: validation.isValid ? "queued" : "invalid",
+      error: validation.error,
+    };
+  });
+
+/**
+ * Check whether a batch item has reached a final status
+ * @param item - The batch item
+ * @returns True when nothing is left to do for the item
+ */
+export const isBatchItemFinished = (item: BatchItem): boolean =>
+  item.status !== "queued" && item.status !== "running";
+
+/**
+ * Analyzes a single domain, reusing a fresh stored analysis when possible
+ */
+const processBatchItem = async (
+  item: BatchItem,
+  update: (patch: Partial<BatchItem>) => void,
+  userLanguage?: string,
+  signal?: AbortSignal
+) => {
+  const cached = await getCompetitorAnalysis(item.domain, undefined, signal);
+  if (signal?.aborted) return;
+  if (
+    cached.success &&
+    cached.data &&
+    !isAnalysisStale(cached.data.created_at)
+  ) {
+    update({ status: "cached", resultId: cached.data.id });
+    return;
+  }
+
+  // Join an analysis already running for the domain instead of starting another
+  const active = await findActiveAnalysisJob(item.domain, signal);
+  if (signal?.aborted) return;
+  const started = active.job
+    ? active
+    : await startAnalysisJob(item.domain, userLanguage, signal);
+  if (signal?.aborted) return;
+
+  if (!started.job) {
+    update({
+      status: "failed",
+      error: started.error || "Failed to start analysis",
+    });
+    return;
+  }
+
+  update({ status: "running", jobId: started.job.id, ownsJob: !active.job });
+
+  const finished = await waitForAnalysisJob(started.job.id, signal);
+  // Stopping the batch marks its unfinished items itself
+  if (signal?.aborted) return;
+  if (finished.job?.status === "succeeded" && finished.job.result_id) {
+    update({ status: "succeeded", resultId: finished.job.result_id });
+  } else {
+    update({
+      status: "failed",
+      error: finished.job?.error || finished.error || "Analysis failed",
+    });
+  }
+};
+
+/**
+ * Cancels the running analyses a batch started itself; joined analyses
+ * belong to someone else and keep running
+ * @param items - The batch items
+ */
+export const cancelBatchJobs = async (items: BatchItem[]) => {
+  const jobIds = items
+    .filter((item) => item.status === "running" && item.ownsJob)
+    .map((item) => item.jobId)
+    .filter((jobId): jobId is string => !!jobId);
+
+  await Promise.all(jobIds.map((jobId) => cancelAnalysisJob(jobId)));
+};
+
+/**
+ * Runs the queued items of a batch with a limited number of concurrent analyses
+ * @param items - The batch items
+ * @param options - Concurrency, language, cancellation and progress callback
+ * @returns Promise resolved once every queued item was processed
+ */
+export const runBatchAnalysis = async (
+  items: BatchItem[],
+  {
+    concurrency = BATCH_CONCURRENCY,
+    userLanguage,
+    signal,
+    onItemUpdate,
+  }: RunBatchOptions
+): Promise<void> => {
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      if (items[index].status !== "queued") continue;
+
+      try {
+        await processBatchItem(
+          items[index],
+          (patch) => onItemUpdate(index, patch),
+          userLanguage,
+          signal
+        );
+      } catch (error) {
+        if (signal?.aborted) return;
+        onItemUpdate(index, {
+          status: "failed",
+          error:
+            error instanceof Error ? error.message : "Unknown error occurred",
+        });
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+};
@@ -0,0 +1,429 @@
+/**
+ * Diagnostics for the debug logs panel
+ *
+ * The diagnostics log sink keeps recent log records in memory for the panel
+ * and persists them to IndexedDB per browser session (one tab, surviving
+ * reloads), so a stuck analysis can still be inspected after the page was
+ * refreshed. A diagnostic bundle gathers them with the poll history, the
+ * environment and the analyzed conversation, and can be replayed later on
+ * the /diagnostics page.
+ */
+import { z } from "zod";
+import { config } from "@/config";
+import { downloadFile } from "@/services/exportJson";
+import {
+  createLogger,
+  LOG_LEVELS,
+  type LogLevel,
+  type LogRecord,
+  type LogSink,
+} from "@/utils/logger";
+
+const log = createLogger("diagnostics");
+
+export interface PollHistoryEntry {
+  time: number;
+  attempt: number;
+}
+
+export interface DiagnosticBundle {
+  version: 2;
+  createdAt: string;
+  sessionId: string;
+  conversationId: string | null;
+  environment: Record<string, string | number | boolean | null>;
+  pollHistory: Record<string, PollHistoryEntry[]>;
+  // Log records, newest first
+  logs: LogRecord[];
+}
+
+// Log record or poll attempt of a bundle, in replay order
+export interface ReplayEvent {
+  kind: "log" | "poll";
+  time: number;
+  offsetMs: number;
+  label: string;
+  namespace: string;
+  level?: LogLevel;
+  data?: unknown;
+}
+
+interface PersistedLog {
+  sessionId: string;
+  timestamp: number;
+  record: LogRecord;
+}
+
+const DB_NAME = "competitor-stack-diagnostics";
+// Version 2 stores log records instead of separate API and database entries
+const DB_VERSION = 2;
+const LOG_STORE = "logs";
+const SESSION_STORAGE_KEY = "diagnostics_session_id";
+// Persisted logs older than this are dropped when the database is opened
+const LOG_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const createSessionId = () =>
+  `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const readSessionId = (): string => {
+  try {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (stored) return stored;
+    const sessionId = createSessionId();
+    sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+    return sessionId;
+  } catch (error) {
+    return createSessionId();
+  }
+};
+
+export const DIAGNOSTICS_SESSION_ID = readSessionId();
+
+// Logs stored before this page load are the ones to restore into the panel
+export const PAGE_LOADED_AT = Date.now();
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const pruneOldLogs = (db: IDBDatabase) => {
+  const cursorRequest = db
+    .transaction(LOG_STORE, "readwrite")
+    .objectStore(LOG_STORE)
+    .index("timestamp")
+    .openCursor(IDBKeyRange.upperBound(Date.now() - LOG_RETENTION_MS));
+
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+};
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (request.result.objectStoreNames.contains(LOG_STORE)) {
+        request.result.deleteObjectStore(LOG_STORE);
+      }
+      const store = request.result.createObjectStore(LOG_STORE, {
+        autoIncrement: true,
+      });
+      store.createIndex("sessionId", "sessionId");
+      store.createIndex("timestamp", "timestamp");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+let hasWarned = false;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openDatabase().then((db) => {
+      pruneOldLogs(db);
+      return db;
+    });
+    // Try again on the next call, e.g. after a blocked upgrade
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+// Persistence is best effort and never breaks the app
+const warnOnce = (error: unknown) => {
+  if (hasWarned) return;
+  hasWarned = true;
+  log.warn("Debug logs cannot be persisted", error);
+};
+
+// Log data may hold values IndexedDB cannot clone, such as class instances
+const toStorable = (record: LogRecord): LogRecord => {
+  try {
+    return JSON.parse(JSON.stringify(record));
+  } catch (error) {
+    return { ...record, data: String(record.data) };
+  }
+};
+
+const getLogTime = (record: { timestamp: string }) =>
+  new Date(record.timestamp).getTime() || Date.now();
+
+/**
+ * Persist a log record for the current session
+ * @param record - The redacted log record
+ */
+const persistLog = (record: LogRecord): void => {
+  if (typeof indexedDB === "undefined") return;
+
+  const persisted: PersistedLog = {
+    sessionId: DIAGNOSTICS_SESSION_ID,
+    timestamp: getLogTime(record),
+    record: toStorable(record),
+  };
+
+  getDatabase()
+    .then((db) =>
+      requestToPromise(
+        db
+          .transaction(LOG_STORE, "readwrite")
+          .objectStore(LOG_STORE)
+          .add(persisted)
+      )
+    )
+    .catch(warnOnce);
+};
+
+/**
+ * Load the persisted logs of a session, newest first
+ * @param sessionId - The session, the current one by default
+ * @returns The log records
+ */
+export const loadPersistedLogs = async (
+  sessionId: string = DIAGNOSTICS_SESSION_ID
+): Promise<LogRecord[]> => {
+  if (typeof indexedDB === "undefined") return [];
+
+  try {
+    const db = await getDatabase();
+    const records = await requestToPromise<PersistedLog[]>(
+      db
+        .transaction(LOG_STORE, "readonly")
+        .objectStore(LOG_STORE)
+        .index("sessionId")
+        .getAll(sessionId)
+    );
+    records.sort((a, b) => b.timestamp - a.timestamp);
+    return records.map((persisted) => persisted.record);
+  } catch (error) {
+    warnOnce(error);
+    return [];
+  }
+};
+
+const clearPersistedLogs = async (): Promise<void> => {
+  if (typeof indexedDB === "undefined") return;
+
+  try {
+    const db = await getDatabase();
+    const store = db.transaction(LOG_STORE, "readwrite").objectStore(LOG_STORE);
+    const keys = await requestToPromise(
+      store.index("sessionId").getAllKeys(DIAGNOSTICS_SESSION_ID)
+    );
+    await Promise.all(keys.map((key) => requestToPromise(store.delete(key))));
+  } catch (error) {
+    warnOnce(error);
+  }
+};
+
+// Recent records shown in the debug logs panel, newest first
+const MAX_BUFFERED_LOGS = 150;
+// Identical records within this window are only kept once
+const DUPLICATE_WINDOW_MS = 2000;
+
+let bufferedLogs: LogRecord[] = [];
+let hasRestoredLogs = false;
+
+const isDuplicate = (record: LogRecord) =>
+  bufferedLogs.some(
+    (existing) =>
+      existing.namespace === record.namespace &&
+      existing.message === record.message &&
+      getLogTime(record) - getLogTime(existing) < DUPLICATE_WINDOW_MS &&
+      JSON.stringify(existing.data) === JSON.stringify(record.data)
+  );
+
+/**
+ * Log sink feeding the debug logs panel and the persisted session logs
+ */
+export const diagnosticsSink: LogSink = (record) => {
+  if (isDuplicate(record)) return;
+  bufferedLogs = [record, ...bufferedLogs].slice(0, MAX_BUFFERED_LOGS);
+  persistLog(record);
+};
+
+/**
+ * Get the records shown in the debug logs panel, newest first
+ */
+export const getBufferedLogs = (): LogRecord[] => bufferedLogs;
+
+/**
+ * Clear the panel and the persisted logs of the current session
+ */
+export const clearLogs = async (): Promise<void> => {
+  bufferedLogs = [];
+  await clearPersistedLogs();
+};
+
+/**
+ * Show the records persisted before the last reload of this session, once
+ */
+export const restorePersistedLogs = async (): Promise<void> => {
+  if (hasRestoredLogs) return;
+  hasRestoredLogs = true;
+
+  const persisted = await loadPersistedLogs();
+  const earlier = persisted.filter(
+    (record) => getLogTime(record) < PAGE_LOADED_AT
+  );
+  bufferedLogs = [...bufferedLogs, ...earlier].slice(0, MAX_BUFFERED_LOGS);
+};
+
+// Polling sessions kept for diagnostic bundles, oldest first
+const MAX_POLL_SESSIONS = 10;
+// Attempts kept per polling session, newest last
+const MAX_POLL_ENTRIES = 100;
+
+const pollHistory = new Map<string, PollHistoryEntry[]>();
+
+/**
+ * Record a poll attempt so diagnostic bundles include it
+ * @param id - The polling session ID
+ * @param entry - The poll attempt
+ */
+export const recordPollAttempt = (id: string, entry: PollHistoryEntry) => {
+  const history = pollHistory.get(id) ?? [];
+  pollHistory.delete(id);
+  pollHistory.set(id, [...history, entry].slice(-MAX_POLL_ENTRIES));
+
+  // Maps iterate in insertion order, so the first key is the stalest session
+  if (pollHistory.size > MAX_POLL_SESSIONS) {
+    const [stalestId] = pollHistory.keys();
+    pollHistory.delete(stalestId);
+  }
+};
+
+// Environment details that help reproduce an issue; never includes keys
+const getEnvironment = (): DiagnosticBundle["environment"] => ({
+  url: window.location.href,
+  userAgent: navigator.userAgent,
+  language: navigator.language,
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  viewport: `${window.innerWidth}x${window.innerHeight}`,
+  online: navigator.onLine,
+  mode: import.meta.env.MODE,
+  analysisProvider: config.analysisProvider,
+  analysisBackendUrl: config.analysisBackendUrl,
+  mockAnalysisScenario:
+    config.analysisProvider === "mock" ? config.mockAnalysisScenario : null,
+  pollInterval: config.pollInterval,
+  maxPollAttempts: config.maxPollAttempts,
+});
+
+/**
+ * Gather the logs of the current session and everything needed to replay them
+ * @param conversationId - The conversation being analyzed, if any
+ * @returns The diagnostic bundle
+ */
+export const createDiagnosticBundle = async (
+  conversationId?: string | null
+): Promise<DiagnosticBundle> => {
+  const logs = await loadPersistedLogs();
+
+  return {
+    version: 2,
+    createdAt: new Date().toISOString(),
+    sessionId: DIAGNOSTICS_SESSION_ID,
+    conversationId: conversationId || null,
+    environment: getEnvironment(),
+    pollHistory: Object.fromEntries(pollHistory),
+    logs,
+  };
+};
+
+/**
+ * Download a diagnostic bundle as JSON
+ * @param bundle - The bundle to download
+ */
+export const downloadDiagnosticBundle = (bundle: DiagnosticBundle) => {
+  const date = bundle.createdAt.slice(0, 19).replace(/[:T]/g, "-");
+  downloadFile(
+    JSON.stringify(bundle, null, 2),
+    "application/json",
+    `diagnostics_${date}.json`
+  );
+};
+
+const logRecordSchema = z.object({
+  level: z.enum(LOG_LEVELS),
+  namespace: z.string(),
+  message: z.string(),
+  data: z.unknown(),
+  timestamp: z.string(),
+});
+
+const bundleSchema = z.object({
+  version: z.literal(2),
+  createdAt: z.string(),
+  sessionId: z.string(),
+  conversationId: z.string().nullable(),
+  environment: z.record(
+    z.union([z.string(), z.number(), z.boolean(), z.null()])
+  ),
+  pollHistory: z.record(
+    z.array(z.object({ time: z.number(), attempt: z.number() }))
+  ),
+  logs: z.array(logRecordSchema),
+});
+
+/**
+ * Validate an imported diagnostic bundle
+ * @param content - The content of the bundle file
+ * @returns The bundle, or why it could not be read
+ */
+export const parseDiagnosticBundle = (
+  content: string
+): { success: boolean; data?: DiagnosticBundle; error?: string } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    return { success: false, error: "The file is not valid JSON" };
+  }
+
+  const result = bundleSchema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      error: "The file is not a diagnostic bundle of this app",
+    };
+  }
+
+  return { success: true, data: result.data as DiagnosticBundle };
+};
+
+/**
+ * Merge the logs and poll attempts of a bundle into one chronological timeline
+ * @param bundle - The diagnostic bundle
+ * @returns The events, oldest first, with their offset from the first one
+ */
+export const getReplayEvents = (bundle: DiagnosticBundle): ReplayEvent[] => {
+  const events: Omit<ReplayEvent, "offsetMs">[] = [
+    ...bundle.logs.map((record) => ({
+      kind: "log" as const,
+      time: getLogTime(record),
+      label: record.message,
+      namespace: record.namespace,
+      level: record.level,
+      data: record.data,
+    })),
+    ...Object.entries(bundle.pollHistory).flatMap(([id, history]) =>
+      history.map((poll) => ({
+        kind: "poll" as const,
+        time: poll.time,
+        label: `Poll attempt ${poll.attempt}`,
+        namespace: id,
+      }))
+    ),
+  ].sort((a, b) => a.time - b.time);
+
+  const start = events[0]?.time ?? 0;
+  return events.map((event) => ({ ...event, offsetMs: event.time - start }));
+};
@@ -1,17 +1,82 @@
-export function exportCompetitorAnalysisToJson(
-  competitorAnalysisData: any,
-  effectiveDomain: string
-) {
-  if (!competitorAnalysisData) return;
+import type { AnalysisDiff } from "@/utils/analysisDiff";
+import type { CompetitorStack } from "@/services/supabaseService";
 
-  const jsonString = JSON.stringify(competitorAnalysisData, null, 2);
-  const blob = new Blob([jsonString], { type: "application/json" });
+/**
+ * Trigger a browser download for generated content
+ * @param content - The file content
+ * @param mimeType - The MIME type of the file
+ * @param fileName - The name of the downloaded file
+ */
+export function downloadFile(
+  content: BlobPart,
+  mimeType: string,
+  fileName: string
+) {
+  const blob = new Blob([content], { type: mimeType });
   const url = window.URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
-  a.download = `${effectiveDomain}_competitor_analysis.json`;
+  a.download = fileName;
   document.body.appendChild(a);
   a.click();
   window.URL.revokeObjectURL(url);
   document.body.removeChild(a);
 }
+
+export function exportCompetitorAnalysisToJson(
+  competitorAnalysisData: unknown,
+  effectiveDomain: string
+) {
+  if (!competitorAnalysisData) return;
+
+  const jsonString = JSON.stringify(competitorAnalysisData, null, 2);
+  downloadFile(
+    jsonString,
+    "application/json",
+    `${effectiveDomain}_competitor_analysis.json`
+  );
+}
+
+/**
+ * Export the diff between two analysis snapshots as JSON
+ * @param diff - The computed analysis diff
+ * @param effectiveDomain - The analyzed company domain
+ * @param snapshots - Creation dates of the compared snapshots
+ */
+export function exportAnalysisDiffToJson(
+  diff: AnalysisDiff,
+  effectiveDomain: string,
+  snapshots: { from: string; to: string }
+) {
+  const jsonString = JSON.stringify(
+    { domain: effectiveDomain, ...snapshots, diff },
+    null,
+    2
+  );
+  downloadFile(
+    jsonString,
+    "application/json",
+    `${effectiveDomain}_competitor_analysis_diff.json`
+  );
+}
+
+/**
+ * Export the analyses of a batch as a single JSON file
+ * @param analyses - The stored analyses of the batch domains
+ */
+export function exportBatchAnalysesToJson(analyses: CompetitorStack[]) {
+  const jsonString = JSON.stringify(
+    analyses.map((analysis) => ({
+      domain: analysis.company_domain,
+      analyzed_at: analysis.created_at,
+      competitors_data: analysis.competitors_data,
+    })),
+    null,
+    2
+  );
+  downloadFile(
+    jsonString,
+    "application/json",
+    `batch_competitor_analysis_${new Date().toISOString().slice(0, 10)}.json`
+  );
+}
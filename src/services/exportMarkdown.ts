@@ -0,0 +1,148 @@
+/**
+ * Markdown export of competitor analyses, for docs, wikis and Notion
+ */
+import { format } from "date-fns";
+import {
+  COMPARISON_FIELDS,
+  getFieldValues,
+} from "@/constants/competitorFields";
+import type { CompetitorStack } from "@/services/supabaseService";
+import type {
+  CompanyAnalysis,
+  Competitor,
+  CompetitorAnalysis,
+} from "@/services/types";
+import { downloadFile } from "@/services/exportJson";
+import { parseStoredCompetitorsData } from "@/utils/parsePlanData";
+
+// Separator between analyses when several are exported in one document
+const ANALYSIS_SEPARATOR = "\n\n---\n\n";
+
+/**
+ * Escape a value for use inside a Markdown table cell
+ */
+const toTableCell = (value: string): string =>
+  value
+    .replace(/\|/g, "\\|")
+    .replace(/\s*\r?\n\s*/g, " ")
+    .trim() || "—";
+
+const toTable = (headers: string[], rows: string[][]): string =>
+  [
+    `| ${headers.map(toTableCell).join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(toTableCell).join(" | ")} |`),
+  ].join("\n");
+
+/**
+ * Render the comparison fields of an entity as bold labels and bullet lists
+ */
+const renderEntityFields = (entity: Competitor | CompanyAnalysis): string[] =>
+  COMPARISON_FIELDS.flatMap((field) => {
+    const values = getFieldValues(entity, field.key);
+    if (values.length === 0) return [];
+    if (field.type === "list") {
+      return [
+        `**${field.label}**`,
+        values.map((value) => `- ${value}`).join("\n"),
+      ];
+    }
+    return [`**${field.label}:** ${values.join(", ")}`];
+  });
+
+/**
+ * Convert a normalized analysis to Markdown
+ * @param analysis - The normalized competitor analysis
+ * @param domain - The analyzed company domain
+ * @param analyzedAt - When the analysis was stored
+ * @returns The Markdown document
+ */
+export const analysisToMarkdown = (
+  analysis: CompetitorAnalysis,
+  domain: string,
+  analyzedAt?: string
+): string => {
+  const { company, competitors, market_insights, recommendations } = analysis;
+  const sections: string[] = [`# Competitor Analysis: ${domain}`];
+
+  if (analyzedAt) {
+    sections.push(`_Analyzed on ${format(new Date(analyzedAt), "PPP")}_`);
+  }
+
+  const companyFields = renderEntityFields(company);
+  if (company.description || company.industry || companyFields.length > 0) {
+    sections.push("## Company overview");
+    if (company.description) sections.push(String(company.description));
+    if (company.industry) sections.push(`**Industry:** ${company.industry}`);
+    sections.push(...companyFields);
+  }
+
+  sections.push("## Competitors");
+  competitors.forEach((competitor, index) => {
+    const domainSuffix = competitor.domain ? ` (${competitor.domain})` : "";
+    sections.push(`### ${index + 1}. ${competitor.name}${domainSuffix}`);
+    if (competitor.description) sections.push(competitor.description);
+    sections.push(...renderEntityFields(competitor));
+  });
+
+  const columns: Array<Competitor | CompanyAnalysis> =
+    companyFields.length > 0 ? [company, ...competitors] : competitors;
+  sections.push(
+    "## Side-by-side comparison",
+    toTable(
+      [
+        "Comparison",
+        ...columns.map((entity) => entity.name || entity.domain || ""),
+      ],
+      COMPARISON_FIELDS.map((field) => [
+        field.label,
+        ...columns.map((entity) =>
+          getFieldValues(entity, field.key).join("; ")
+        ),
+      ])
+    )
+  );
+
+  if (market_insights) {
+    sections.push("## Market insights", market_insights);
+  }
+
+  if (recommendations && recommendations.length > 0) {
+    sections.push(
+      "## Recommendations",
+      recommendations.map((recommendation) => `- ${recommendation}`).join("\n")
+    );
+  }
+
+  return sections.join("\n\n") + "\n";
+};
+
+/**
+ * Convert stored analyses to a single Markdown document
+ * @param analyses - The stored analyses
+ * @returns The Markdown document, skipping analyses that cannot be parsed
+ */
+export const analysesToMarkdown = (analyses: CompetitorStack[]): string =>
+  analyses
+    .map((analysis) => {
+      const { data } = parseStoredCompetitorsData(
+        analysis.competitors_data,
+        analysis.company_domain
+      );
+      return data
+        ? analysisToMarkdown(data, analysis.company_domain, analysis.created_at)
+        : null;
+    })
+    .filter((markdown): markdown is string => !!markdown)
+    .join(ANALYSIS_SEPARATOR);
+
+export function exportAnalysesToMarkdown(
+  analyses: CompetitorStack[],
+  fileBaseName: string
+) {
+  downloadFile(
+    analysesToMarkdown(analyses),
+    "text/markdown;charset=utf-8",
+    `${fileBaseName}.md`
+  );
+}
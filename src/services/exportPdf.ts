@@ -0,0 +1,229 @@
+/**
+ * Client-side PDF report of a stored competitor analysis
+ */
+import type { jsPDF } from "jspdf";
+import {
+  COMPARISON_FIELDS,
+  getFieldValues,
+} from "@/constants/competitorFields";
+import { getReportLabels, getReportLanguage } from "@/constants/reportLabels";
+import type { CompetitorStack } from "@/services/supabaseService";
+import type { CompanyAnalysis, Competitor } from "@/services/types";
+import { parseStoredCompetitorsData } from "@/utils/parsePlanData";
+
+// Brand color (dusty-primary) as RGB
+const BRAND_COLOR: [number, number, number] = [11, 153, 110];
+const TEXT_COLOR: [number, number, number] = [31, 41, 55];
+const MUTED_COLOR: [number, number, number] = [107, 114, 128];
+const PAGE_MARGIN = 15;
+const HEADER_HEIGHT = 32;
+const FOOTER_HEIGHT = 12;
+
+// jsPDF instance after jspdf-autotable has drawn a table
+type ReportDocument = jsPDF & { lastAutoTable?: { finalY: number } };
+
+/**
+ * Format the analysis date in the report language
+ */
+const formatReportDate = (createdAt: string, language: string): string =>
+  new Intl.DateTimeFormat(language, { dateStyle: "long" }).format(
+    new Date(createdAt)
+  );
+
+/**
+ * Build the label/value rows describing an entity in the report
+ */
+const getEntityRows = (
+  entity: Competitor | CompanyAnalysis,
+  fieldLabels: Record<string, string>
+): string[][] =>
+  COMPARISON_FIELDS.map((field) => {
+    const values = getFieldValues(entity, field.key);
+    return [
+      fieldLabels[field.key],
+      field.type === "list"
+        ? values.map((value) => `• ${value}`).join("\n")
+        : values.join(", "),
+    ];
+  }).filter(([, value]) => !!value);
+
+/**
+ * Generate and download the PDF report of a stored analysis
+ * @param analysis - The stored analysis, live or historical
+ * @throws Error when the stored analysis cannot be parsed
+ */
+export async function exportAnalysisToPdf(analysis: CompetitorStack) {
+  const { success, data } = parseStoredCompetitorsData(
+    analysis.competitors_data,
+    analysis.company_domain
+  );
+  if (!success || !data) {
+    throw new Error("The stored analysis is incomplete");
+  }
+
+  // Loaded on demand to keep the PDF libraries out of the main bundle
+  const [{ jsPDF }, { autoTable }] = await Promise.all([
+    import("jspdf"),
+    import("jspdf-autotable"),
+  ]);
+
+  const language = getReportLanguage(analysis.user_language);
+  const labels = getReportLabels(language);
+  const analyzedOn = `${labels.analyzedOn} ${formatReportDate(
+    analysis.created_at,
+    language
+  )}`;
+
+  const doc: ReportDocument = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const bottomLimit = pageHeight - FOOTER_HEIGHT - PAGE_MARGIN;
+  let cursorY = HEADER_HEIGHT + 10;
+
+  const ensureSpace = (height: number) => {
+    if (cursorY + height > bottomLimit) {
+      doc.addPage();
+      cursorY = PAGE_MARGIN + 5;
+    }
+  };
+
+  const addHeading = (text: string) => {
+    ensureSpace(16);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(14);
+    doc.setTextColor(...BRAND_COLOR);
+    doc.text(text, PAGE_MARGIN, cursorY);
+    cursorY += 7;
+  };
+
+  const addParagraph = (text: string) => {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    doc.setTextColor(...TEXT_COLOR);
+    doc.splitTextToSize(text, contentWidth).forEach((line: string) => {
+      ensureSpace(5);
+      doc.text(line, PAGE_MARGIN, cursorY);
+      cursorY += 5;
+    });
+    cursorY += 3;
+  };
+
+  const addTable = (options: Parameters<typeof autoTable>[1]) => {
+    autoTable(doc, {
+      startY: cursorY,
+      margin: {
+        left: PAGE_MARGIN,
+        right: PAGE_MARGIN,
+        top: PAGE_MARGIN,
+        bottom: FOOTER_HEIGHT + PAGE_MARGIN,
+      },
+      styles: { fontSize: 9, cellPadding: 2, textColor: TEXT_COLOR },
+      headStyles: { fillColor: BRAND_COLOR, textColor: 255 },
+      ...options,
+    });
+    cursorY = (doc.lastAutoTable?.finalY ?? cursorY) + 8;
+  };
+
+  // Branded title band on the first page
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, pageWidth, HEADER_HEIGHT, "F");
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(20);
+  doc.text(
+    `${labels.title}: ${analysis.company_domain}`,
+    PAGE_MARGIN,
+    HEADER_HEIGHT / 2
+  );
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(analyzedOn, PAGE_MARGIN, HEADER_HEIGHT / 2 + 8);
+
+  // Company summary
+  const { company, competitors, market_insights, recommendations } = data;
+  addHeading(labels.company);
+  if (company.description) addParagraph(String(company.description));
+  const companyRows = [
+    company.industry ? [labels.industry, String(company.industry)] : null,
+    ...getEntityRows(company, labels.fields),
+  ].filter((row): row is string[] => !!row);
+  if (companyRows.length > 0) {
+    addTable({
+      body: companyRows,
+      theme: "plain",
+      columnStyles: { 0: { fontStyle: "bold", cellWidth: 45 } },
+    });
+  }
+
+  // One card per competitor
+  addHeading(labels.competitors);
+  competitors.forEach((competitor, index) => {
+    const rows = [
+      competitor.domain ? [labels.website, competitor.domain] : null,
+      competitor.description ? ["", String(competitor.description)] : null,
+      ...getEntityRows(competitor, labels.fields),
+    ].filter((row): row is string[] => !!row);
+
+    addTable({
+      head: [[{ content: `#${index + 1} ${competitor.name}`, colSpan: 2 }]],
+      body: rows,
+      theme: "grid",
+      rowPageBreak: "avoid",
+      columnStyles: { 0: { fontStyle: "bold", cellWidth: 45 } },
+    });
+  });
+
+  // Comparison matrix, company first when it has details
+  const showCompany = getEntityRows(company, labels.fields).length > 0;
+  const columns = showCompany ? [company, ...competitors] : competitors;
+  addHeading(labels.comparison);
+  addTable({
+    head: [["", ...columns.map((entity) => entity.name || entity.domain)]],
+    body: COMPARISON_FIELDS.map((field) => [
+      labels.fields[field.key],
+      ...columns.map((entity) =>
+        getFieldValues(entity, field.key).join(
+          field.type === "list" ? "\n" : ", "
+        )
+      ),
+    ]),
+    theme: "grid",
+    styles: { fontSize: columns.length > 4 ? 7 : 8, cellPadding: 1.5 },
+    columnStyles: { 0: { fontStyle: "bold", cellWidth: 30 } },
+  });
+
+  if (market_insights) {
+    addHeading(labels.marketInsights);
+    addParagraph(market_insights);
+  }
+
+  if (recommendations && recommendations.length > 0) {
+    addHeading(labels.recommendations);
+    recommendations.forEach((recommendation) =>
+      addParagraph(`• ${recommendation}`)
+    );
+  }
+
+  // Footer with the analysis date and page numbers on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(
+      `${analysis.company_domain} · ${analyzedOn}`,
+      PAGE_MARGIN,
+      pageHeight - PAGE_MARGIN
+    );
+    doc.text(
+      `${labels.page} ${page} ${labels.of} ${pageCount}`,
+      pageWidth - PAGE_MARGIN,
+      pageHeight - PAGE_MARGIN,
+      { align: "right" }
+    );
+  }
+
+  doc.save(`${analysis.company_domain}_competitor_analysis.pdf`);
+}
@@ -0,0 +1,57 @@
+/**
+ * Export of stored competitor analyses in every supported file format
+ */
+import type { CompetitorStack } from "@/services/supabaseService";
+import {
+  exportBatchAnalysesToJson,
+  exportCompetitorAnalysisToJson,
+} from "@/services/exportJson";
+import { exportAnalysisToPdf } from "@/services/exportPdf";
+import { exportAnalysesToMarkdown } from "@/services/exportMarkdown";
+import {
+  exportAnalysesToCsv,
+  exportAnalysesToXlsx,
+  getExportBaseName,
+} from "@/services/exportSpreadsheet";
+
+export type ExportFormat = "json" | "csv" | "xlsx" | "pdf" | "markdown";
+
+// Formats that can combine several analyses in one file
+export const MULTI_ANALYSIS_EXPORT_FORMATS: ExportFormat[] = [
+  "csv",
+  "xlsx",
+  "markdown",
+  "json",
+];
+
+/**
+ * Export analyses in the requested format
+ * @param analyses - The stored analyses to export
+ * @param format - The export format
+ */
+export async function exportAnalyses(
+  analyses: CompetitorStack[],
+  format: ExportFormat
+) {
+  if (analyses.length === 0) return;
+
+  if (format === "pdf") {
+    if (analyses.length > 1) {
+      throw new Error("A PDF report covers a single analysis");
+    }
+    await exportAnalysisToPdf(analyses[0]);
+  } else if (format === "markdown") {
+    exportAnalysesToMarkdown(analyses, getExportBaseName(analyses));
+  } else if (format === "csv") {
+    exportAnalysesToCsv(analyses);
+  } else if (format === "xlsx") {
+    await exportAnalysesToXlsx(analyses);
+  } else if (analyses.length === 1) {
+    exportCompetitorAnalysisToJson(
+      analyses[0].competitors_data,
+      analyses[0].company_domain
+    );
+  } else {
+    exportBatchAnalysesToJson(analyses);
+  }
+}
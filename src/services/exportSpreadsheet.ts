@@ -0,0 +1,103 @@
+/**
+ * Tabular (CSV and XLSX) exports of stored competitor analyses
+ */
+import {
+  COMPARISON_FIELDS,
+  getFieldValues,
+} from "@/constants/competitorFields";
+import type { CompetitorStack } from "@/services/supabaseService";
+import { downloadFile } from "@/services/exportJson";
+import { parseStoredCompetitorsData } from "@/utils/parsePlanData";
+
+// Separator used when a list field is written to a single cell
+const LIST_SEPARATOR = "; ";
+
+const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export const ANALYSIS_EXPORT_HEADERS = [
+  "Analyzed Domain",
+  "Analyzed At",
+  "Rank",
+  "Competitor",
+  "Competitor Domain",
+  ...COMPARISON_FIELDS.map((field) => field.label),
+];
+
+/**
+ * Build one row per competitor for the given analyses
+ * @param analyses - The stored analyses to export
+ * @returns The table rows, without the header row
+ */
+export const buildCompetitorRows = (
+  analyses: CompetitorStack[]
+): Array<Array<string | number>> =>
+  analyses.flatMap((analysis) => {
+    const { data } = parseStoredCompetitorsData(
+      analysis.competitors_data,
+      analysis.company_domain
+    );
+    if (!data) return [];
+
+    return data.competitors.map((competitor, index) => [
+      analysis.company_domain,
+      analysis.created_at,
+      index + 1,
+      competitor.name,
+      competitor.domain || "",
+      ...COMPARISON_FIELDS.map((field) =>
+        getFieldValues(competitor, field.key).join(LIST_SEPARATOR)
+      ),
+    ]);
+  });
+
+/**
+ * Escape a value for CSV, neutralizing cells a spreadsheet would run as formulas
+ */
+const toCsvCell = (value: string | number): string => {
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize analyses to CSV, one row per competitor
+ * @param analyses - The stored analyses to export
+ * @returns The CSV content
+ */
+export const analysesToCsv = (analyses: CompetitorStack[]): string =>
+  [ANALYSIS_EXPORT_HEADERS, ...buildCompetitorRows(analyses)]
+    .map((row) => row.map(toCsvCell).join(","))
+    .join("\r\n");
+
+/**
+ * Build the file name shared by every export format
+ * @param analyses - The exported analyses
+ * @returns The file name without extension
+ */
+export const getExportBaseName = (analyses: CompetitorStack[]): string => {
+  const domains = new Set(analyses.map((analysis) => analysis.company_domain));
+  if (domains.size === 1) {
+    return `${analyses[0].company_domain}_competitor_analysis`;
+  }
+  return `batch_competitor_analysis_${new Date().toISOString().slice(0, 10)}`;
+};
+
+export function exportAnalysesToCsv(analyses: CompetitorStack[]) {
+  // Prepend a BOM so Excel detects UTF-8
+  downloadFile(
+    `\uFEFF${analysesToCsv(analyses)}`,
+    "text/csv;charset=utf-8",
+    `${getExportBaseName(analyses)}.csv`
+  );
+}
+
+export async function exportAnalysesToXlsx(analyses: CompetitorStack[]) {
+  // Loaded on demand to keep the spreadsheet writer out of the main bundle
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+  const content = await writeXlsxFile(
+    [ANALYSIS_EXPORT_HEADERS, ...buildCompetitorRows(analyses)],
+    { sheet: "Competitors" }
+  ).toBlob();
+  downloadFile(content, XLSX_MIME_TYPE, `${getExportBaseName(analyses)}.xlsx`);
+}
@@ -0,0 +1,124 @@
+/**
+ * Service for the leads collected by the email gate
+ *
+ * Leads are checked and stored by the submit-lead function; a database
+ * trigger enqueues their webhook delivery, which the deliver-lead-webhooks
+ * function retries until it succeeds. Internal leads are stored as a log of
+ * gate bypasses only. Passing the gate is remembered in this browser.
+ */
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import type { EmailRejectionReason } from "@/constants/emailGate";
+import { normalizeDomain } from "@/utils/domainUtils";
+import { createLogger } from "@/utils/logger";
+
+const log = createLogger("lead");
+
+// Lead submitted through the email gate
+export interface LeadSubmission {
+  email: string;
+  companyDomain: string;
+  companyName?: string;
+  companySize?: string;
+  pageUrl: string;
+  userLanguage?: string;
+}
+
+// localStorage key set once this browser has passed the email gate
+const EMAIL_GATE_STORAGE_KEY = "email_gate_unlocked_at";
+
+// Name of the edge function that validates and stores leads
+const SUBMIT_LEAD_FUNCTION = "submit-lead";
+
+// Name of the edge function that delivers leads to the webhook
+const DELIVER_LEADS_FUNCTION = "deliver-lead-webhooks";
+
+/**
+ * Check whether this browser already passed the email gate
+ */
+export const isEmailGateUnlocked = (): boolean => {
+  try {
+    return !!localStorage.getItem(EMAIL_GATE_STORAGE_KEY);
+  } catch (error) {
+    log.error("Error reading the email gate state", error);
+    return false;
+  }
+};
+
+/**
+ * Remember in this browser that the email gate was passed
+ */
+export const rememberEmailGateUnlock = () => {
+  try {
+    localStorage.setItem(EMAIL_GATE_STORAGE_KEY, new Date().toISOString());
+  } catch (error) {
+    log.error("Error storing the email gate state", error);
+  }
+};
+
+/**
+ * Submits a lead to the submit-lead function, which checks the email against
+ * the business email rules and its mail servers before storing it, then asks
+ * the delivery function to forward it right away
+ * @param lead - The lead submitted through the email gate
+ * @returns Promise with success status; rejected emails carry the reason
+ */
+export const submitLead = async (
+  lead: LeadSubmission
+): Promise<{
+  success: boolean;
+  isInternal?: boolean;
+  reason?: EmailRejectionReason;
+  error?: string;
+}> => {
+  try {
+    const { data, error } = await supabase.functions.invoke(
+      SUBMIT_LEAD_FUNCTION,
+      {
+        body: {
+          email: lead.email.trim(),
+          companyDomain: normalizeDomain(lead.companyDomain),
+          companyName: lead.companyName,
+          companySize: lead.companySize,
+          pageUrl: lead.pageUrl,
+          userLanguage: lead.userLanguage || "en",
+        },
+      }
+    );
+
+    if (error) {
+      // Rejected emails come back as 422 with the reason
+      const body =
+        error instanceof FunctionsHttpError
+          ? await error.context.json().catch(() => null)
+          : null;
+      log.error("Error submitting lead", body?.error || error);
+      return {
+        success: false,
+        reason: body?.reason,
+        error: body?.error || error.message,
+      };
+    }
+
+    // The outbox keeps the delivery when this kick fails; the scheduled
+    // sweep retries it
+    supabase.functions
+      .invoke(DELIVER_LEADS_FUNCTION, { body: {} })
+      .then(({ error: deliveryError }) => {
+        if (deliveryError) {
+          log.warn("Lead webhook delivery deferred", deliveryError);
+        }
+      });
+
+    return {
+      success: true,
+      isInternal: !!data?.lead?.isInternal,
+    };
+  } catch (error) {
+    log.error("Exception submitting lead", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
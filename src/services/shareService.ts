@@ -0,0 +1,230 @@
+/**
+ * Service for the share links giving read-only access to a stored analysis
+ *
+ * Shares are only reachable through database functions: the share token opens
+ * the analysis, the manage token lets its creator read statistics and revoke
+ * the link. Manage tokens are remembered in this browser per analysis.
+ */
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { CompetitorStack } from "@/services/supabaseService";
+import { getCancelTokens } from "@/services/analysisJobService";
+import { SHARE_LINK_TTL_DAYS } from "@/constants";
+import { withSignal } from "@/utils/abortUtils";
+import { createLogger } from "@/utils/logger";
+
+const log = createLogger("share");
+
+export type AnalysisShare =
+  Database["public"]["Tables"]["analysis_shares"]["Row"];
+
+// Analysis opened through a share link
+export interface SharedAnalysis {
+  analysis: CompetitorStack;
+  expiresAt: string;
+  viewCount: number;
+}
+
+// localStorage key of the manage tokens created in this browser
+const SHARE_STORAGE_KEY = "analysis_share_links";
+
+const readStoredShares = (): Record<string, string> => {
+  try {
+    const stored = localStorage.getItem(SHARE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    log.error("Error reading stored share links", error);
+    return {};
+  }
+};
+
+const storeShare = (analysisId: string, manageToken: string) => {
+  try {
+    localStorage.setItem(
+      SHARE_STORAGE_KEY,
+      JSON.stringify({ ...readStoredShares(), [analysisId]: manageToken })
+    );
+  } catch (error) {
+    log.error("Error storing share link", error);
+  }
+};
+
+/**
+ * Get the manage token of the share link this browser created for an analysis
+ * @param analysisId - The competitor_stack record ID
+ * @returns The manage token, if a link was created here
+ */
+export const getStoredShareToken = (analysisId: string): string | undefined =>
+  readStoredShares()[analysisId];
+
+/**
+ * Build the public URL of a share link
+ * @param token - The share token
+ */
+export const getShareUrl = (token: string): string =>
+  `${window.location.origin}/share/${encodeURIComponent(token)}`;
+
+/**
+ * Check whether a share link still opens its analysis
+ * @param share - The share link
+ */
+export const isShareActive = (
+  share: Pick<AnalysisShare, "revoked_at" | "expires_at">
+): boolean =>
+  !share.revoked_at && new Date(share.expires_at).getTime() > Date.now();
+
+/**
+ * Creates a share link for a stored analysis and remembers it in this browser
+ * @param analysisId - The competitor_stack record ID
+ * @param ttlDays - Days before the link expires
+ * @returns Promise with success status and the created share
+ */
+export const createAnalysisShare = async (
+  analysisId: string,
+  ttlDays: number = SHARE_LINK_TTL_DAYS
+): Promise<{ success: boolean; share?: AnalysisShare; error?: string }> => {
+  try {
+    const { data, error } = await supabase.rpc("create_analysis_share", {
+      share_analysis_id: analysisId,
+      ttl_days: ttlDays,
+      cancel_tokens: getCancelTokens(),
+    });
+
+    if (error) {
+      log.error("Error creating share link", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    storeShare(analysisId, data.manage_token);
+    return {
+      success: true,
+      share: data,
+    };
+  } catch (error) {
+    log.error("Exception creating share link", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Retrieves a share link and its statistics as its creator
+ * @param manageToken - The manage token of the share
+ * @param signal - Optional signal to abort the request
+ * @returns Promise with the share, if it still exists
+ */
+export const getAnalysisShare = async (
+  manageToken: string,
+  signal?: AbortSignal
+): Promise<{ success: boolean; share?: AnalysisShare; error?: string }> => {
+  try {
+    const { data, error } = await withSignal(
+      supabase.rpc("get_analysis_share", {
+        share_manage_token: manageToken,
+      }),
+      signal
+    ).maybeSingle();
+
+    if (error) {
+      log.error("Error retrieving share link", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      share: data ?? undefined,
+    };
+  } catch (error) {
+    log.error("Exception retrieving share link", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Revokes a share link as its creator
+ * @param manageToken - The manage token of the share
+ * @returns Promise with success status and the revoked share
+ */
+export const revokeAnalysisShare = async (
+  manageToken: string
+): Promise<{ success: boolean; share?: AnalysisShare; error?: string }> => {
+  try {
+    const { data, error } = await supabase
+      .rpc("revoke_analysis_share", { share_manage_token: manageToken })
+      .maybeSingle();
+
+    if (error || !data) {
+      log.error("Error revoking share link", error);
+      return {
+        success: false,
+        error: error?.message || "Share link not found",
+      };
+    }
+
+    return {
+      success: true,
+      share: data,
+    };
+  } catch (error) {
+    log.error("Exception revoking share link", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Opens a share link and counts the view
+ * @param token - The share token from the URL
+ * @param signal - Optional signal to abort the request
+ * @returns Promise with the shared analysis; fails when the link is unknown,
+ * expired or revoked
+ */
+export const openSharedAnalysis = async (
+  token: string,
+  signal?: AbortSignal
+): Promise<{ success: boolean; data?: SharedAnalysis; error?: string }> => {
+  try {
+    const { data, error } = await withSignal(
+      supabase.rpc("open_analysis_share", { share_token: token }),
+      signal
+    ).maybeSingle();
+
+    if (error || !data) {
+      if (error) log.error("Error opening share link", error);
+      return {
+        success: false,
+        error: error?.message || "This share link is invalid or has expired",
+      };
+    }
+
+    const { expires_at, view_count, ...analysis } = data;
+    return {
+      success: true,
+      data: {
+        // Who requested the analysis is not disclosed through share links
+        analysis: { ...analysis, requested_by: null },
+        expiresAt: expires_at,
+        viewCount: view_count,
+      },
+    };
+  } catch (error) {
+    log.error("Exception opening share link", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
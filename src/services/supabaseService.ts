@@ -1,47 +1,52 @@
 /**
  * Supabase service for storing and retrieving competitor analysis data
+ *
+ * Analyses are read through database functions that only return the ones the
+ * caller requested: as the signed-in user, a member of the requester's
+ * workspaces or the browser holding the cancel token of the job.
  */
 import { supabase } from "@/integrations/supabase/client";
-import type { Database, Json } from "@/integrations/supabase/types";
+import type { Database } from "@/integrations/supabase/types";
+import { getCancelTokens } from "@/services/analysisJobService";
+import { withSignal } from "@/utils/abortUtils";
 import { normalizeDomain } from "@/utils/domainUtils";
+import { createLogger } from "@/utils/logger";
 
-type CompetitorStack = Database["public"]["Tables"]["competitor_stack"]["Row"];
-type CompetitorStackInsert =
-  Database["public"]["Tables"]["competitor_stack"]["Insert"];
+const log = createLogger("supabase");
+
+export type CompetitorStack =
+  Database["public"]["Tables"]["competitor_stack"]["Row"];
+
+// Row metadata used by history listings, without the analysis payload
+export type CompetitorStackSummary = Pick<
+  CompetitorStack,
+  "id" | "company_domain" | "created_at" | "user_language"
+>;
 
 /**
- * Stores competitor analysis data in Supabase
+ * Retrieves competitor analysis data from Supabase
  * @param domain - The company domain
- * @param analysisData - The raw analysis data from the API
- * @param userLanguage - The user's language preference
- * @returns Promise with success status and record data
+ * @param createdAfter - Only consider analyses stored after this timestamp
+ * @param signal - Optional signal to abort the request
+ * @returns Promise with the analysis data
  */
-export const storeCompetitorAnalysis = async (
+export const getCompetitorAnalysis = async (
   domain: string,
-  analysisData: Json,
-  userLanguage?: string
-): Promise<{ success: boolean; record?: CompetitorStack; error?: string }> => {
+  createdAfter?: string,
+  signal?: AbortSignal
+): Promise<{ success: boolean; data?: CompetitorStack; error?: string }> => {
   try {
-    // Normalize the domain using the utility function
-    const normalizedDomain = normalizeDomain(domain);
-
-    // Prepare the data for storage
-    const insertData: CompetitorStackInsert = {
-      company_domain: normalizedDomain,
-      competitors_data: analysisData,
-      user_language: userLanguage || "en",
-      created_at: new Date().toISOString(),
-    };
-
-    // Insert the data into Supabase
-    const { data, error } = await supabase
-      .from("competitor_stack")
-      .insert(insertData)
-      .select()
-      .single();
+    const { data, error } = await withSignal(
+      supabase.rpc("get_latest_competitor_analysis", {
+        target_domain: normalizeDomain(domain),
+        created_after: createdAfter,
+        cancel_tokens: getCancelTokens(),
+      }),
+      signal
+    ).single();
 
     if (error) {
-      console.error("Error storing competitor analysis:", error);
+      log.error("Error retrieving competitor analysis", error);
       return {
         success: false,
         error: error.message,
@@ -50,10 +55,10 @@ export const storeCompetitorAnalysis = async (
 
     return {
       success: true,
-      record: data,
+      data,
     };
   } catch (error) {
-    console.error("Exception storing competitor analysis:", error);
+    log.error("Exception retrieving competitor analysis", error);
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error occurred",
@@ -62,26 +67,29 @@ export const storeCompetitorAnalysis = async (
 };
 
 /**
- * Retrieves competitor analysis data from Supabase
- * @param domain - The company domain
+ * Retrieves a specific competitor analysis version by its record ID
+ * @param domain - The company domain the version belongs to
+ * @param id - The record ID
+ * @param signal - Optional signal to abort the request
  * @returns Promise with the analysis data
  */
-export const getCompetitorAnalysis = async (
-  domain: string
+export const getCompetitorAnalysisById = async (
+  domain: string,
+  id: string,
+  signal?: AbortSignal
 ): Promise<{ success: boolean; data?: CompetitorStack; error?: string }> => {
   try {
-    const normalizedDomain = normalizeDomain(domain);
-
-    const { data, error } = await supabase
-      .from("competitor_stack")
-      .select("*")
-      .eq("company_domain", normalizedDomain)
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .single();
+    const { data, error } = await withSignal(
+      supabase.rpc("get_competitor_analyses", {
+        target_domains: [normalizeDomain(domain)],
+        analysis_ids: [id],
+        cancel_tokens: getCancelTokens(),
+      }),
+      signal
+    ).single();
 
     if (error) {
-      console.error("Error retrieving competitor analysis:", error);
+      log.error("Error retrieving competitor analysis version", error);
       return {
         success: false,
         error: error.message,
@@ -93,7 +101,7 @@ export const getCompetitorAnalysis = async (
       data,
     };
   } catch (error) {
-    console.error("Exception retrieving competitor analysis:", error);
+    log.error("Exception retrieving competitor analysis version", error);
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error occurred",
@@ -102,26 +110,29 @@ export const getCompetitorAnalysis = async (
 };
 
 /**
- * Updates existing competitor analysis data
- * @param id - The record ID
- * @param analysisData - The updated analysis data
- * @returns Promise with success status
+ * Retrieves several competitor analysis versions by their record IDs
+ * @param domains - The company domains the versions belong to
+ * @param ids - The record IDs
+ * @param signal - Optional signal to abort the request
+ * @returns Promise with the analyses, in no particular order
  */
-export const updateCompetitorAnalysis = async (
-  id: string,
-  analysisData: Json
-): Promise<{ success: boolean; error?: string }> => {
+export const getCompetitorAnalysesByIds = async (
+  domains: string[],
+  ids: string[],
+  signal?: AbortSignal
+): Promise<{ success: boolean; data?: CompetitorStack[]; error?: string }> => {
   try {
-    const { error } = await supabase
-      .from("competitor_stack")
-      .update({
-        competitors_data: analysisData,
-        created_at: new Date().toISOString(),
-      })
-      .eq("id", id);
+    const { data, error } = await withSignal(
+      supabase.rpc("get_competitor_analyses", {
+        target_domains: domains.map(normalizeDomain),
+        analysis_ids: ids,
+        cancel_tokens: getCancelTokens(),
+      }),
+      signal
+    );
 
     if (error) {
-      console.error("Error updating competitor analysis:", error);
+      log.error("Error retrieving competitor analyses", error);
       return {
         success: false,
         error: error.message,
@@ -130,9 +141,10 @@ export const updateCompetitorAnalysis = async (
 
     return {
       success: true,
+      data,
     };
   } catch (error) {
-    console.error("Exception updating competitor analysis:", error);
+    log.error("Exception retrieving competitor analyses", error);
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error occurred",
@@ -141,21 +153,37 @@ export const updateCompetitorAnalysis = async (
 };
 
 /**
- * Deletes competitor analysis data
- * @param id - The record ID
- * @returns Promise with success status
+ * Lists every stored competitor analysis for a domain, newest first
+ * @param domain - The company domain
+ * @param page - Zero-based page index
+ * @param pageSize - Number of records per page
+ * @param signal - Optional signal to abort the request
+ * @returns Promise with the page of records and the total record count
  */
-export const deleteCompetitorAnalysis = async (
-  id: string
-): Promise<{ success: boolean; error?: string }> => {
+export const listCompetitorAnalyses = async (
+  domain: string,
+  page = 0,
+  pageSize = 20,
+  signal?: AbortSignal
+): Promise<{
+  success: boolean;
+  data?: CompetitorStackSummary[];
+  total?: number;
+  error?: string;
+}> => {
   try {
-    const { error } = await supabase
-      .from("competitor_stack")
-      .delete()
-      .eq("id", id);
+    const { data, error } = await withSignal(
+      supabase.rpc("list_competitor_analyses", {
+        target_domain: normalizeDomain(domain),
+        page_offset: page * pageSize,
+        page_size: pageSize,
+        cancel_tokens: getCancelTokens(),
+      }),
+      signal
+    );
 
     if (error) {
-      console.error("Error deleting competitor analysis:", error);
+      log.error("Error listing competitor analyses", error);
       return {
         success: false,
         error: error.message,
@@ -164,9 +192,12 @@ export const deleteCompetitorAnalysis = async (
 
     return {
       success: true,
+      data: data.map(({ total_count: _total, ...summary }) => summary),
+      // Every row carries the total; a page past the end has none
+      total: data[0]?.total_count ?? page * pageSize,
     };
   } catch (error) {
-    console.error("Exception deleting competitor analysis:", error);
+    log.error("Exception listing competitor analyses", error);
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error occurred",
@@ -12,7 +12,7 @@ export interface Competitor {
   market_position?: string;
   business_model?: string;
   target_audience?: string;
-  [key: string]: any;
+  [key: string]: unknown;
 }
 
 // Interface for company analysis
@@ -23,7 +23,7 @@ export interface CompanyAnalysis {
   business_model?: string;
   target_audience?: string;
   market_position?: string;
-  [key: string]: any;
+  [key: string]: unknown;
 }
 
 // Interface for competitor analysis results
@@ -32,35 +32,33 @@ export interface CompetitorAnalysis {
   competitors: Competitor[];
   market_insights?: string;
   recommendations?: string[];
-  [key: string]: any;
+  [key: string]: unknown;
+}
+
+// Interface for the analysis-answer response returned by the Dust backend
+export interface AnalysisAnswer {
+  status?: string;
+  response?: {
+    state?: string;
+    data?: {
+      content?: unknown;
+      [key: string]: unknown;
+    };
+    [key: string]: unknown;
+  };
+  content?: unknown;
+  [key: string]: unknown;
 }
 
 // Interface for the entire competitor stack data structure
 export interface CompetitorStackData {
   domain: string;
-  analysis: any;
+  analysis: CompetitorAnalysis;
   competitors: Competitor[] | null;
   metadata: {
     analyzedAt: string;
     userLanguage?: string;
     version: string;
   };
-  [key: string]: any;
-}
-
-// API log entry interface
-export interface ApiLogEntry {
-  type: "request" | "response";
-  endpoint: string;
-  data: any;
-  timestamp: string;
-}
-
-// DB log entry interface
-export interface DbLogEntry {
-  type: "query" | "result" | "check" | "request" | "response";
-  operation: string;
-  data: any;
-  timestamp: string;
-  status?: "success" | "error";
+  [key: string]: unknown;
 }
@@ -0,0 +1,250 @@
+/**
+ * Service for the workspaces in which teams track competitor domains
+ */
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { withSignal } from "@/utils/abortUtils";
+import { normalizeDomain } from "@/utils/domainUtils";
+import { createLogger } from "@/utils/logger";
+
+const log = createLogger("workspace");
+
+export type Workspace = Database["public"]["Tables"]["workspaces"]["Row"];
+export type WorkspaceMember =
+  Database["public"]["Tables"]["workspace_members"]["Row"];
+export type WorkspaceDomain =
+  Database["public"]["Tables"]["workspace_domains"]["Row"];
+
+// Tracked domain with its latest stored analysis, if any
+export type TrackedAnalysis =
+  Database["public"]["Functions"]["list_workspace_analyses"]["Returns"][number];
+
+/**
+ * Lists the workspaces of the signed-in user
+ * @param signal - Optional signal to abort the request
+ * @returns Promise with the workspaces, oldest first
+ */
+export const listWorkspaces = async (
+  signal?: AbortSignal
+): Promise<{ success: boolean; data?: Workspace[]; error?: string }> => {
+  try {
+    const { data, error } = await withSignal(
+      supabase
+        .from("workspaces")
+        .select("*")
+        .order("created_at", { ascending: true }),
+      signal
+    );
+
+    if (error) {
+      log.error("Error listing workspaces", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error) {
+    log.error("Exception listing workspaces", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Creates a workspace owned by the signed-in user
+ * @param name - The workspace name
+ * @returns Promise with success status and the created workspace
+ */
+export const createWorkspace = async (
+  name: string
+): Promise<{ success: boolean; workspace?: Workspace; error?: string }> => {
+  try {
+    const { data, error } = await supabase.rpc("create_workspace", {
+      workspace_name: name,
+    });
+
+    if (error) {
+      log.error("Error creating workspace", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      workspace: data,
+    };
+  } catch (error) {
+    log.error("Exception creating workspace", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Adds a teammate to a workspace owned by the signed-in user
+ * @param workspaceId - The workspace ID
+ * @param email - Email of a user who has signed in at least once
+ * @returns Promise with success status and the membership
+ */
+export const addWorkspaceMember = async (
+  workspaceId: string,
+  email: string
+): Promise<{ success: boolean; member?: WorkspaceMember; error?: string }> => {
+  try {
+    const { data, error } = await supabase.rpc("add_workspace_member", {
+      target_workspace_id: workspaceId,
+      member_email: email,
+    });
+
+    if (error) {
+      log.error("Error adding workspace member", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      member: data,
+    };
+  } catch (error) {
+    log.error("Exception adding workspace member", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Lists the domains tracked by a workspace with their latest analysis
+ * @param workspaceId - The workspace ID
+ * @param signal - Optional signal to abort the request
+ * @returns Promise with the tracked domains, sorted by domain
+ */
+export const listTrackedAnalyses = async (
+  workspaceId: string,
+  signal?: AbortSignal
+): Promise<{ success: boolean; data?: TrackedAnalysis[]; error?: string }> => {
+  try {
+    const { data, error } = await withSignal(
+      supabase.rpc("list_workspace_analyses", {
+        target_workspace_id: workspaceId,
+      }),
+      signal
+    );
+
+    if (error) {
+      log.error("Error listing tracked analyses", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error) {
+    log.error("Exception listing tracked analyses", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Starts tracking a domain in a workspace
+ * @param workspaceId - The workspace ID
+ * @param domain - The company domain
+ * @returns Promise with success status and the tracked domain
+ */
+export const trackDomain = async (
+  workspaceId: string,
+  domain: string
+): Promise<{ success: boolean; domain?: WorkspaceDomain; error?: string }> => {
+  try {
+    const { data, error } = await supabase
+      .from("workspace_domains")
+      .insert({
+        workspace_id: workspaceId,
+        company_domain: normalizeDomain(domain),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      log.error("Error tracking domain", error);
+      return {
+        success: false,
+        // Unique violation: the domain is already tracked
+        error:
+          error.code === "23505"
+            ? "This domain is already tracked in the workspace"
+            : error.message,
+      };
+    }
+
+    return {
+      success: true,
+      domain: data,
+    };
+  } catch (error) {
+    log.error("Exception tracking domain", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
+
+/**
+ * Stops tracking a domain in a workspace
+ * @param workspaceId - The workspace ID
+ * @param domain - The company domain
+ * @returns Promise with success status
+ */
+export const untrackDomain = async (
+  workspaceId: string,
+  domain: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { error } = await supabase
+      .from("workspace_domains")
+      .delete()
+      .eq("workspace_id", workspaceId)
+      .eq("company_domain", normalizeDomain(domain));
+
+    if (error) {
+      log.error("Error untracking domain", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    log.error("Exception untracking domain", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+};
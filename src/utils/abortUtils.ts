@@ -0,0 +1,19 @@
+/**
+ * Helpers for cancelling in-flight requests with an AbortSignal
+ */
+
+// Error returned by services whose request was aborted
+export const ABORTED_ERROR = "Request aborted";
+
+/**
+ * Attach an optional abort signal to a Supabase query
+ * @param query - The query builder
+ * @param signal - Optional signal aborting the request
+ * @returns The same query builder
+ */
+export const withSignal = <
+  Q extends { abortSignal: (signal: AbortSignal) => Q }
+>(
+  query: Q,
+  signal?: AbortSignal
+): Q => (signal ? query.abortSignal(signal) : query);
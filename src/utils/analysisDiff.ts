@@ -0,0 +1,148 @@
+/**
+ * Utilities for comparing two competitor analyses of the same domain
+ */
+import {
+  COMPARISON_FIELDS,
+  ComparisonFieldKey,
+  getFieldValues,
+} from "@/constants/competitorFields";
+import { normalizeDomain } from "@/utils/domainUtils";
+import type {
+  CompanyAnalysis,
+  Competitor,
+  CompetitorAnalysis,
+} from "@/services/types";
+
+// Change of a single comparison field between two snapshots
+export interface FieldChange {
+  field: ComparisonFieldKey;
+  label: string;
+  before: string[];
+  after: string[];
+  added: string[];
+  removed: string[];
+}
+
+// Competitor present in both snapshots with edited fields
+export interface CompetitorChange {
+  key: string;
+  name: string;
+  domain?: string;
+  changes: FieldChange[];
+}
+
+export interface AnalysisDiff {
+  added: Competitor[];
+  removed: Competitor[];
+  changed: CompetitorChange[];
+  companyChanges: FieldChange[];
+  unchangedCount: number;
+  hasChanges: boolean;
+}
+
+// Normalize values so casing and spacing edits are not reported as changes
+const normalizeValue = (value: string): string =>
+  value.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Get a stable identity for a competitor across snapshots
+ * @param competitor - The competitor to identify
+ * @returns The normalized domain, or the normalized name as a fallback
+ */
+export const getCompetitorKey = (competitor: Competitor): string =>
+  competitor.domain
+    ? normalizeDomain(competitor.domain)
+    : normalizeValue(competitor.name || "");
+
+/**
+ * Compare the comparison fields of two versions of the same entity
+ * @param before - The entity in the older snapshot
+ * @param after - The entity in the newer snapshot
+ * @returns The list of fields that changed
+ */
+const diffFields = (
+  before: Competitor | CompanyAnalysis,
+  after: Competitor | CompanyAnalysis
+): FieldChange[] =>
+  COMPARISON_FIELDS.map((field) => {
+    const beforeValues = getFieldValues(before, field.key);
+    const afterValues = getFieldValues(after, field.key);
+    const beforeSet = new Set(beforeValues.map(normalizeValue));
+    const afterSet = new Set(afterValues.map(normalizeValue));
+
+    return {
+      field: field.key,
+      label: field.label,
+      before: beforeValues,
+      after: afterValues,
+      added: afterValues.filter(
+        (value) => !beforeSet.has(normalizeValue(value))
+      ),
+      removed: beforeValues.filter(
+        (value) => !afterSet.has(normalizeValue(value))
+      ),
+    };
+  }).filter((change) => change.added.length > 0 || change.removed.length > 0);
+
+/**
+ * Compute what changed between two analyses of the same domain
+ * @param before - The older analysis
+ * @param after - The newer analysis
+ * @returns Added, removed and edited competitors plus company changes
+ */
+export const diffAnalyses = (
+  before: CompetitorAnalysis,
+  after: CompetitorAnalysis
+): AnalysisDiff => {
+  const beforeByKey = new Map(
+    before.competitors.map((competitor) => [
+      getCompetitorKey(competitor),
+      competitor,
+    ])
+  );
+  const afterKeys = new Set(after.competitors.map(getCompetitorKey));
+
+  const added: Competitor[] = [];
+  const changed: CompetitorChange[] = [];
+  let unchangedCount = 0;
+
+  after.competitors.forEach((competitor) => {
+    const key = getCompetitorKey(competitor);
+    const previous = beforeByKey.get(key);
+
+    if (!previous) {
+      added.push(competitor);
+      return;
+    }
+
+    const changes = diffFields(previous, competitor);
+    if (changes.length > 0) {
+      changed.push({
+        key,
+        name: competitor.name,
+        domain: competitor.domain,
+        changes,
+      });
+    } else {
+      unchangedCount++;
+    }
+  });
+
+  const removed = before.competitors.filter(
+    (competitor) => !afterKeys.has(getCompetitorKey(competitor))
+  );
+  const companyChanges = diffFields(before.company, after.company);
+
+  return {
+    added,
+    removed,
+    changed,
+    companyChanges,
+    unchangedCount,
+    hasChanges:
+      added.length > 0 ||
+      removed.length > 0 ||
+      changed.length > 0 ||
+      companyChanges.length > 0,
+  };
+};
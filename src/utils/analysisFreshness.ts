@@ -0,0 +1,35 @@
+/**
+ * Freshness helpers for stored competitor analyses
+ */
+import { differenceInDays, formatDistanceToNow } from "date-fns";
+import { ANALYSIS_FRESHNESS_TTL_DAYS } from "@/constants";
+
+/**
+ * Get the age of a stored analysis in whole days
+ * @param createdAt - The created_at timestamp of the analysis
+ * @param now - Reference date, defaults to the current date
+ * @returns Age in days
+ */
+export const getAnalysisAgeInDays = (
+  createdAt: string,
+  now: Date = new Date()
+): number => differenceInDays(now, new Date(createdAt));
+
+/**
+ * Check whether a stored analysis is older than the freshness TTL
+ * @param createdAt - The created_at timestamp of the analysis
+ * @param ttlDays - Freshness TTL in days
+ * @returns Boolean indicating if the analysis should be refreshed
+ */
+export const isAnalysisStale = (
+  createdAt: string,
+  ttlDays: number = ANALYSIS_FRESHNESS_TTL_DAYS
+): boolean => getAnalysisAgeInDays(createdAt) >= ttlDays;
+
+/**
+ * Format the age of a stored analysis for display
+ * @param createdAt - The created_at timestamp of the analysis
+ * @returns Human readable age, e.g. "3 months ago"
+ */
+export const formatAnalysisAge = (createdAt: string): string =>
+  formatDistanceToNow(new Date(createdAt), { addSuffix: true });
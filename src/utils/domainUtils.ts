@@ -1,6 +1,12 @@
 /**
  * Domain utility functions
  */
+import { ERROR_MESSAGES } from "@/constants";
+
+export interface DomainValidationResult {
+  isValid: boolean;
+  error?: string;
+}
 
 /**
  * Normalizes a domain by removing protocols and trailing slashes
@@ -15,3 +21,163 @@ export const normalizeDomain = (domain: string): string => {
     .replace(/\/.*$/, "")
     .replace(/^www\./, "");
 };
+
+/**
+ * Validates a domain against the rules used for every analysis request
+ * @param domain - The domain as entered by the user
+ * @returns Validation result with a user-facing error message
+ */
+export const validateDomain = (domain: string): DomainValidationResult => {
+  const trimmedDomain = domain.trim();
+  if (!trimmedDomain) {
+    return { isValid: false, error: ERROR_MESSAGES.EMPTY_DOMAIN };
+  }
+
+  // Basic domain validation - strip protocols and check for at least one dot
+  const strippedDomain = trimmedDomain
+    .replace(/^https?:\/\//, "")
+    .replace(/\/.*$/, "");
+  if (!strippedDomain.includes(".")) {
+    return {
+      isValid: false,
+      error: "Please enter a valid domain (e.g. example.com)",
+    };
+  }
+
+  // Check for common invalid inputs
+  const lowercaseDomain = strippedDomain.toLowerCase();
+  if (
+    lowercaseDomain === "example.com" ||
+    lowercaseDomain === "test.com" ||
+    lowercaseDomain === "domain.com" ||
+    lowercaseDomain === "mydomain.com" ||
+    lowercaseDomain === "yourcompany.com"
+  ) {
+    return {
+      isValid: false,
+      error: "Please enter your actual company domain.",
+    };
+  }
+
+  // Additional validation for problematic domains
+  if (lowercaseDomain.length < 4) {
+    return {
+      isValid: false,
+      error: "Domain name appears too short. Please enter a valid domain.",
+    };
+  }
+
+  // Check for domains that typically return no data
+  // Removed amazon.com from the problematic domains list
+  const problematicDomains = [
+    "aol.com",
+    "mail.com",
+    "protonmail.com",
+    "me.com",
+    "a.com",
+    "b.com",
+    "c.com",
+    "xyz.com",
+    "abc.com",
+    "123.com",
+    "test123.com",
+    "xrapit.io",
+    "xrapit.com",
+    "test.io",
+    "demo.io",
+    "app.io",
+    "site.io",
+  ];
+  if (problematicDomains.includes(lowercaseDomain)) {
+    return {
+      isValid: false,
+      error:
+        "Please enter your company domain, not a generic or personal domain.",
+    };
+  }
+
+  // Check for potentially problematic TLDs (top-level domains)
+  const problematicTLDs = [
+    ".io",
+    ".xyz",
+    ".test",
+    ".example",
+    ".local",
+    ".dev",
+  ];
+  const hasPotentiallyProblematicTLD = problematicTLDs.some((tld) =>
+    lowercaseDomain.endsWith(tld)
+  );
+
+  // More aggressive validation for .io domains
+  if (hasPotentiallyProblematicTLD) {
+    // For .io domains, must have a dash or be longer than 8 chars
+    const domainWithoutTLD = lowercaseDomain.split(".")[0];
+    if (domainWithoutTLD.length < 6 && !domainWithoutTLD.includes("-")) {
+      return {
+        isValid: false,
+        error:
+          "This domain may not have enough public information. Please try a company with more established online presence.",
+      };
+    }
+
+    // For very short .io domains, suggest they might not work
+    if (domainWithoutTLD.length < 4) {
+      return {
+        isValid: false,
+        error:
+          "Very short .io domains rarely have enough public information. Please try a different domain.",
+      };
+    }
+  }
+  return { isValid: true };
+};
+
+// Header cells identifying the domain column of an uploaded CSV
+const DOMAIN_COLUMN_HEADERS = [
+  "domain",
+  "domains",
+  "company_domain",
+  "company domain",
+  "website",
+  "url",
+];
+
+/**
+ * Extracts domains from an uploaded CSV or a pasted list
+ * Uses the domain column when the CSV has a header row, otherwise every cell
+ * @param text - The CSV or pasted text
+ * @returns The entered domains, without blanks or normalized duplicates
+ */
+export const parseDomainList = (text: string): string[] => {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line) =>
+      line.split(/[,;\t]/).map((cell) =>
+        cell
+          .trim()
+          .replace(/^"(.*)"$/, "$1")
+          .trim()
+      )
+    )
+    .filter((cells) => cells.some(Boolean));
+
+  const headerIndex = rows.length
+    ? rows[0].findIndex((cell) =>
+        DOMAIN_COLUMN_HEADERS.includes(cell.toLowerCase())
+      )
+    : -1;
+
+  const cells =
+    headerIndex >= 0
+      ? rows.slice(1).map((cells) => cells[headerIndex] || "")
+      : rows.flat();
+
+  const seen = new Set<string>();
+  return cells.filter((cell) => {
+    const normalized = normalizeDomain(cell);
+    if (!normalized || seen.has(normalized)) return false;
+    seen.add(normalized);
+    return true;
+  });
+};
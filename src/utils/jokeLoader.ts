@@ -3,22 +3,25 @@
  * Utility to load and process marketing jokes for the loading screen
  */
 import { marketingJokesData } from '@/data/marketing_jokes';
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('jokes');
 
 // Simple function to load jokes from the marketingJokesData object
 export const loadMarketingJokes = () => {
   try {
     // Debug logs to help track joke loading
-    console.log("Loading jokes from marketing_jokes.ts");
+    log.debug("Loading jokes from marketing_jokes.ts");
     
     if (!marketingJokesData || !marketingJokesData.jokes) {
-      console.warn("Marketing jokes data is missing or malformed");
+      log.warn("Marketing jokes data is missing or malformed");
       return getFallbackJokes();
     }
     
-    console.log(`Successfully loaded ${marketingJokesData.jokes.length} jokes`);
+    log.debug(`Successfully loaded ${marketingJokesData.jokes.length} jokes`);
     return marketingJokesData.jokes;
   } catch (error) {
-    console.error("Error loading marketing jokes:", error);
+    log.error("Error loading marketing jokes", error);
     return getFallbackJokes();
   }
 };
@@ -47,4 +50,4 @@ export const getRandomJoke = () => {
 };
 
 // Debug confirmation
-console.log(`Loaded ${marketingJokes.length} marketing jokes successfully`);
+log.debug(`Loaded ${marketingJokes.length} marketing jokes successfully`);
@@ -2,6 +2,9 @@
 /**
  * Language detection utilities for automatic language detection and storage
  */
+import { createLogger } from '@/utils/logger';
+
+const log = createLogger('language');
 
 // Standard language codes mapping (ISO 639-1)
 const SUPPORTED_LANGUAGES = {
@@ -33,7 +36,7 @@ export const detectUserLanguage = (): string => {
       ...(navigator.languages || [])
     ];
 
-    console.log('Browser languages detected:', browserLanguages);
+    log.debug('Browser languages detected', browserLanguages);
 
     // Find the first supported language
     for (const lang of browserLanguages) {
@@ -41,16 +44,16 @@ export const detectUserLanguage = (): string => {
       const langCode = lang.split('-')[0].toLowerCase() as SupportedLanguage;
       
       if (SUPPORTED_LANGUAGES[langCode]) {
-        console.log('Language detected and supported:', langCode);
+        log.debug('Language detected and supported', langCode);
         return langCode;
       }
     }
 
     // Default to English if no supported language found
-    console.log('No supported language found, defaulting to English');
+    log.debug('No supported language found, defaulting to English');
     return 'en';
   } catch (error) {
-    console.error('Error detecting language:', error);
+    log.error('Error detecting language', error);
     return 'en';
   }
 };
@@ -62,9 +65,9 @@ export const detectUserLanguage = (): string => {
 export const storeLanguagePreference = (language: string): void => {
   try {
     localStorage.setItem('user_language_preference', language);
-    console.log('Language preference stored:', language);
+    log.debug('Language preference stored', language);
   } catch (error) {
-    console.error('Error storing language preference:', error);
+    log.error('Error storing language preference', error);
   }
 };
 
@@ -76,11 +79,11 @@ export const getStoredLanguagePreference = (): string | null => {
   try {
     const stored = localStorage.getItem('user_language_preference');
     if (stored) {
-      console.log('Stored language preference retrieved:', stored);
+      log.debug('Stored language preference retrieved', stored);
     }
     return stored;
   } catch (error) {
-    console.error('Error retrieving stored language preference:', error);
+    log.error('Error retrieving stored language preference', error);
     return null;
   }
 };
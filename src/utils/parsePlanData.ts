@@ -0,0 +1,444 @@
+/**
+ * Runtime validation for competitor analysis payloads
+ *
+ * Validates the Dust agent response returned by analysis-answer and the
+ * competitors_data JSONB stored in Supabase, and normalizes both into typed
+ * CompetitorAnalysis objects.
+ */
+import { z } from "zod";
+import type {
+  AnalysisAnswer,
+  CompanyAnalysis,
+  Competitor,
+  CompetitorAnalysis,
+} from "@/services/types";
+
+// Validation error shape consumed by ErrorState
+export interface ValidationError {
+  field: string;
+  message: string;
+}
+
+// Result of parsing a payload into a typed model
+export interface ParseResult<T> {
+  success: boolean;
+  data?: T;
+  errors: ValidationError[];
+}
+
+/**
+ * Envelope returned by the analysis-answer endpoint
+ */
+export const analysisAnswerSchema = z
+  .object({
+    status: z.string().optional(),
+    response: z
+      .object({
+        state: z.string().optional(),
+        data: z
+          .object({
+            content: z.unknown().optional(),
+          })
+          .passthrough()
+          .optional(),
+      })
+      .passthrough()
+      .optional(),
+    content: z.unknown().optional(),
+  })
+  .passthrough();
+
+// Free text fields are sometimes returned as numbers or lists by the agent
+const textSchema = z
+  .union([z.string(), z.number(), z.array(z.string())])
+  .transform((value) =>
+    Array.isArray(value) ? value.join(", ").trim() : String(value).trim()
+  );
+
+// Lists are returned either as arrays or as a single separated string
+const stringListSchema = z
+  .union([z.array(z.union([z.string(), z.number()])), z.string()])
+  .transform((value) =>
+    (Array.isArray(value) ? value.map(String) : value.split(/\n|;/))
+      .map((item) => item.replace(/^\s*[-*•]\s*/, "").trim())
+      .filter(Boolean)
+  );
+
+/**
+ * Competitor entry in object form
+ */
+export const competitorSchema = z
+  .object({
+    name: textSchema.optional(),
+    company_name: textSchema.optional(),
+    domain: textSchema.optional(),
+    website: textSchema.optional(),
+    description: textSchema.optional(),
+    strengths: stringListSchema.optional(),
+    weaknesses: stringListSchema.optional(),
+    market_position: textSchema.optional(),
+    business_model: textSchema.optional(),
+    target_audience: textSchema.optional(),
+  })
+  .passthrough()
+  .refine((value) => !!(value.name || value.company_name || value.domain), {
+    message: "Competitor must have a name or a domain",
+  })
+  .transform((value): Competitor => {
+    const { company_name, website, ...rest } = value;
+    const domain = rest.domain || website;
+    return {
+      ...rest,
+      name: rest.name || company_name || domain,
+      domain,
+    };
+  });
+
+// Competitors can also be listed as bare domains
+const competitorEntrySchema = z.union([
+  z
+    .string()
+    .trim()
+    .min(1, "Competitor entry is empty")
+    .transform((domain): Competitor => ({ name: domain, domain })),
+  competitorSchema,
+]);
+
+/**
+ * Company being analyzed, returned as company or company_summary
+ */
+export const companySchema = z
+  .object({
+    name: textSchema.optional(),
+    company_name: textSchema.optional(),
+    domain: textSchema.optional(),
+    industry: textSchema.optional(),
+    description: textSchema.optional(),
+    business_model: textSchema.optional(),
+    target_audience: textSchema.optional(),
+    market_position: textSchema.optional(),
+  })
+  .passthrough();
+
+/**
+ * Structured analysis content returned by the agent
+ */
+export const analysisContentSchema = z
+  .object({
+    company: companySchema.optional(),
+    company_summary: companySchema.optional(),
+    competitors: z.array(z.unknown()).optional(),
+    competitor_list: z.array(z.unknown()).optional(),
+    top_competitors: z.array(z.unknown()).optional(),
+    // Legacy payloads list programs instead of competitors
+    programs_list: z
+      .union([z.array(z.unknown()), z.record(z.unknown())])
+      .optional(),
+    market_insights: textSchema.optional(),
+    recommendations: stringListSchema.optional(),
+    // Set by the agent instead of an analysis (see detectContentError)
+    error: z.unknown().optional(),
+    refusal: z.unknown().optional(),
+  })
+  .passthrough();
+
+/**
+ * Converts zod issues to ValidationError entries
+ * @param error - The zod error
+ * @param prefix - Path prefix for the reported fields
+ */
+const toValidationErrors = (
+  error: z.ZodError,
+  prefix: string
+): ValidationError[] =>
+  error.issues.map((issue) => ({
+    field: [prefix, ...issue.path].filter((part) => part !== "").join("."),
+    message: issue.message,
+  }));
+
+/**
+ * Parses a list of competitor entries, keeping the valid ones
+ * @param entries - Raw competitor entries
+ * @param field - Field name used in validation errors
+ */
+const parseCompetitorEntries = (
+  entries: unknown[],
+  field: string
+): { competitors: Competitor[]; errors: ValidationError[] } => {
+  const competitors: Competitor[] = [];
+  const errors: ValidationError[] = [];
+
+  entries.forEach((entry, index) => {
+    const result = competitorEntrySchema.safeParse(entry);
+    if (result.success) {
+      competitors.push(result.data);
+    } else {
+      errors.push(...toValidationErrors(result.error, `${field}.${index}`));
+    }
+  });
+
+  return { competitors, errors };
+};
+
+/**
+ * Builds the analyzed company from the content, falling back to the domain
+ * @param company - Parsed company block, if any
+ * @param domain - The analyzed company domain
+ */
+const toCompanyAnalysis = (
+  company: z.infer<typeof companySchema> | undefined,
+  domain?: string
+): CompanyAnalysis => {
+  const { company_name, ...rest } = company || {};
+  const companyDomain = rest.domain || domain || "";
+  return {
+    ...rest,
+    name: rest.name || company_name || companyDomain,
+    domain: companyDomain,
+  };
+};
+
+// Legacy payloads detail each program as program_1_details, program_2_details...
+const LEGACY_PROGRAM_DETAILS_PATTERN = /^program_(\d+)_details$/;
+
+/**
+ * Maps a legacy program entry to a competitor entry
+ * @param entry - A programs_list or program_N_details entry
+ * @param fallbackName - The matching programs_list entry, if any
+ */
+const toLegacyCompetitorEntry = (
+  entry: unknown,
+  fallbackName?: unknown
+): unknown => {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    return entry;
+  }
+
+  const { program_name, program_description, ...rest } = entry as Record<
+    string,
+    unknown
+  >;
+  return {
+    name:
+      program_name ??
+      (typeof fallbackName === "string" ? fallbackName : undefined),
+    description: program_description,
+    ...rest,
+  };
+};
+
+/**
+ * Collects the competitors of a legacy company_summary / programs_list /
+ * program_N_details payload, preferring the detailed entries
+ * @param content - The legacy analysis content
+ */
+const getLegacyProgramEntries = (content: Record<string, unknown>) => {
+  const list = content.programs_list;
+  const listEntries = Array.isArray(list)
+    ? list
+    : list && typeof list === "object"
+    ? Object.values(list)
+    : [];
+
+  const details = Object.entries(content)
+    .map(([key, value]) => ({
+      index: Number(key.match(LEGACY_PROGRAM_DETAILS_PATTERN)?.[1]),
+      value,
+    }))
+    .filter(({ index }) => !Number.isNaN(index))
+    .sort((a, b) => a.index - b.index)
+    .map(({ value }) => value);
+
+  return details.length > 0
+    ? details.map((entry, index) =>
+        toLegacyCompetitorEntry(entry, listEntries[index])
+      )
+    : listEntries.map((entry) => toLegacyCompetitorEntry(entry));
+};
+
+/**
+ * Agents sometimes return JSON encoded as text, decode it when possible
+ * @param content - Raw content value
+ */
+const decodeJsonContent = (content: unknown): unknown => {
+  if (typeof content !== "string") return content;
+
+  const trimmed = content.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return content;
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return content;
+  }
+};
+
+/**
+ * Parses analysis content into a CompetitorAnalysis
+ *
+ * Supports a structured object, the legacy programs payload, an array of
+ * competitors and a comma separated string of competitor domains.
+ * @param rawContent - The content from response.data.content
+ * @param domain - The analyzed company domain
+ * @returns Parse result with the typed analysis and validation errors
+ */
+export const parseAnalysisContent = (
+  rawContent: unknown,
+  domain?: string
+): ParseResult<CompetitorAnalysis> => {
+  const content = decodeJsonContent(rawContent);
+
+  if (content === undefined || content === null || content === "") {
+    return {
+      success: false,
+      errors: [{ field: "content", message: "Analysis content is missing" }],
+    };
+  }
+
+  let analysis: CompetitorAnalysis;
+  let errors: ValidationError[] = [];
+
+  if (typeof content === "string") {
+    const entries = content.split(",").map((entry) => entry.trim());
+    const parsed = parseCompetitorEntries(entries.filter(Boolean), "content");
+    analysis = {
+      company: toCompanyAnalysis(undefined, domain),
+      competitors: parsed.competitors,
+    };
+    errors = parsed.errors;
+  } else if (Array.isArray(content)) {
+    const parsed = parseCompetitorEntries(content, "content");
+    analysis = {
+      company: toCompanyAnalysis(undefined, domain),
+      competitors: parsed.competitors,
+    };
+    errors = parsed.errors;
+  } else {
+    const result = analysisContentSchema.safeParse(content);
+    if (!result.success) {
+      return {
+        success: false,
+        errors: toValidationErrors(result.error, "content"),
+      };
+    }
+
+    const {
+      company,
+      company_summary,
+      competitors,
+      competitor_list,
+      top_competitors,
+      programs_list,
+      ...rest
+    } = result.data;
+    const [field, entries] = competitors
+      ? ["competitors", competitors]
+      : competitor_list
+      ? ["competitor_list", competitor_list]
+      : top_competitors
+      ? ["top_competitors", top_competitors]
+      : ["programs_list", getLegacyProgramEntries(result.data)];
+    const parsed = parseCompetitorEntries(entries, `content.${field}`);
+
+    analysis = {
+      ...Object.fromEntries(
+        Object.entries(rest).filter(
+          ([key]) => !LEGACY_PROGRAM_DETAILS_PATTERN.test(key)
+        )
+      ),
+      company: toCompanyAnalysis(company || company_summary, domain),
+      competitors: parsed.competitors,
+    };
+    errors = parsed.errors;
+  }
+
+  if (analysis.competitors.length === 0) {
+    errors.push({
+      field: "competitors",
+      message: "No competitors found in the analysis content",
+    });
+  }
+
+  return {
+    success: analysis.competitors.length > 0,
+    data: analysis,
+    errors,
+  };
+};
+
+/**
+ * Validates an analysis-answer response envelope
+ * @param raw - The JSON body returned by the API
+ * @returns Parse result with the typed envelope
+ */
+export const parseAnalysisAnswerEnvelope = (
+  raw: unknown
+): ParseResult<AnalysisAnswer> => {
+  const result = analysisAnswerSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: toValidationErrors(result.error, "response"),
+    };
+  }
+
+  return { success: true, data: result.data, errors: [] };
+};
+
+/**
+ * Gets the agent content from an analysis-answer envelope
+ * @param answer - The analysis-answer envelope
+ */
+export const getAnswerContent = (answer?: AnalysisAnswer | null): unknown =>
+  answer?.response?.data?.content ?? answer?.content;
+
+/**
+ * Parses a Dust agent response into a CompetitorAnalysis
+ * @param raw - The analysis-answer response body
+ * @param domain - The analyzed company domain
+ * @returns Parse result with the typed analysis and validation errors
+ */
+export const parseAnalysisAnswer = (
+  raw: unknown,
+  domain?: string
+): ParseResult<CompetitorAnalysis> => {
+  const envelope = parseAnalysisAnswerEnvelope(raw);
+  if (!envelope.success) {
+    return { success: false, errors: envelope.errors };
+  }
+
+  return parseAnalysisContent(getAnswerContent(envelope.data), domain);
+};
+
+/**
+ * Parses the competitors_data JSONB stored in Supabase
+ *
+ * Rows store the raw analysis-answer response, but already normalized
+ * analyses are accepted as well.
+ * @param competitorsData - The stored competitors_data value
+ * @param domain - The company_domain of the row
+ * @returns Parse result with the typed analysis and validation errors
+ */
+export const parseStoredCompetitorsData = (
+  competitorsData: unknown,
+  domain?: string
+): ParseResult<CompetitorAnalysis> => {
+  if (
+    competitorsData &&
+    typeof competitorsData === "object" &&
+    !Array.isArray(competitorsData) &&
+    !("response" in competitorsData) &&
+    !("content" in competitorsData)
+  ) {
+    return parseAnalysisContent(competitorsData, domain);
+  }
+
+  return parseAnalysisAnswer(competitorsData, domain);
+};
+
+/**
+ * Formats validation errors as a single readable message
+ * @param errors - The validation errors
+ */
+export const formatValidationErrors = (errors: ValidationError[]): string =>
+  errors.map((error) => `${error.field}: ${error.message}`).join("; ");
@@ -0,0 +1,300 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { applyJitter, startPolling } from "@/utils/pollingScheduler";
+
+// Settle the pending attempt and the promise callbacks that follow it
+const advance = (ms: number) => vi.advanceTimersByTimeAsync(ms);
+
+describe("applyJitter", () => {
+  it("returns the delay unchanged without jitter", () => {
+    expect(applyJitter(1000)).toBe(1000);
+    expect(applyJitter(1000, 0, () => 0.9)).toBe(1000);
+  });
+
+  it("spreads the delay within the jitter fraction", () => {
+    expect(applyJitter(1000, 0.2, () => 0)).toBe(800);
+    expect(applyJitter(1000, 0.2, () => 0.5)).toBe(1000);
+    expect(applyJitter(1000, 0.2, () => 0.99)).toBe(1196);
+  });
+
+  it("never returns a negative delay", () => {
+    expect(applyJitter(1000, 2, () => 0)).toBe(0);
+  });
+});
+
+describe("startPolling", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("waits the interval computed from each attempt number", async () => {
+    const task = vi.fn().mockResolvedValue(undefined);
+    const interval = vi.fn((attempt: number) => 1000 * 2 ** (attempt - 1));
+    const scheduler = startPolling(task, { interval });
+
+    await advance(0);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await advance(999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await advance(1);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await advance(1999);
+    expect(task).toHaveBeenCalledTimes(2);
+    await advance(1);
+    expect(task).toHaveBeenCalledTimes(3);
+
+    expect(interval.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+    expect(task.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+    scheduler.stop();
+  });
+
+  it("applies the jitter to each delay", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const task = vi.fn().mockResolvedValue(undefined);
+    const scheduler = startPolling(task, { interval: 1000, jitter: 0.5 });
+
+    await advance(0);
+    await advance(499);
+    expect(task).toHaveBeenCalledTimes(1);
+    await advance(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it("waits the initial delay before the first attempt", async () => {
+    const task = vi.fn().mockResolvedValue(undefined);
+    const scheduler = startPolling(task, { interval: 1000, initialDelay: 500 });
+
+    await advance(499);
+    expect(task).not.toHaveBeenCalled();
+    await advance(1);
+    expect(task).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("never starts an attempt before the previous one settles", async () => {
+    let resolveTask: () => void = () => undefined;
+    const task = vi.fn(
+      () => new Promise<void>((resolve) => (resolveTask = resolve))
+    );
+    const scheduler = startPolling(task, { interval: 100 });
+
+    await advance(1000);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    resolveTask();
+    await advance(100);
+    expect(task).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it("stops after maxAttempts", async () => {
+    const task = vi.fn().mockResolvedValue("pending");
+    const onStop = vi.fn();
+    startPolling(task, { interval: 1000, maxAttempts: 3, onStop });
+
+    await advance(10000);
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onStop).toHaveBeenCalledWith("max_attempts", "pending");
+  });
+
+  it("stops once isComplete accepts a result", async () => {
+    const task = vi
+      .fn()
+      .mockResolvedValueOnce({ status: "running" })
+      .mockResolvedValueOnce({ status: "succeeded" });
+    const onStop = vi.fn();
+    const isComplete = vi.fn(
+      (result: { status: string }) => result.status === "succeeded"
+    );
+    startPolling(task, { interval: 1000, isComplete, onStop });
+
+    await advance(10000);
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(isComplete).toHaveBeenCalledTimes(2);
+    expect(isComplete).toHaveBeenLastCalledWith({ status: "succeeded" }, 2);
+    expect(onStop).toHaveBeenCalledWith("completed", { status: "succeeded" });
+  });
+
+  it("keeps polling after errors until shouldStopOnError accepts one", async () => {
+    const failure = new Error("unavailable");
+    const task = vi.fn().mockRejectedValue(failure);
+    const onStop = vi.fn();
+    const shouldStopOnError = vi.fn(
+      (_error: unknown, consecutiveErrors: number) => consecutiveErrors >= 3
+    );
+    startPolling(task, { interval: 1000, shouldStopOnError, onStop });
+
+    await advance(10000);
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(shouldStopOnError).toHaveBeenLastCalledWith(failure, 3);
+    expect(shouldStopOnError.mock.calls.map(([, count]) => count)).toEqual([
+      1, 2, 3,
+    ]);
+    expect(onStop).toHaveBeenCalledWith("error", undefined);
+  });
+
+  it("resets the consecutive error count after a result", async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("first"))
+      .mockResolvedValueOnce("ok")
+      .mockRejectedValueOnce(new Error("second"));
+    const shouldStopOnError = vi.fn(
+      (_error: unknown, _consecutiveErrors: number) => false
+    );
+    const onStop = vi.fn();
+    startPolling(task, {
+      interval: 1000,
+      maxAttempts: 3,
+      shouldStopOnError,
+      onStop,
+    });
+
+    await advance(10000);
+    expect(shouldStopOnError.mock.calls.map(([, count]) => count)).toEqual([
+      1, 1,
+    ]);
+    expect(onStop).toHaveBeenCalledWith("max_attempts", "ok");
+  });
+
+  it("stops and aborts the in-flight attempt when the signal aborts", async () => {
+    const controller = new AbortController();
+    let attemptSignal: AbortSignal | undefined;
+    const task = vi.fn((_attempt: number, signal: AbortSignal) => {
+      attemptSignal = signal;
+      return new Promise<void>(() => undefined);
+    });
+    const onStop = vi.fn();
+    startPolling(task, { interval: 1000, signal: controller.signal, onStop });
+
+    await advance(0);
+    controller.abort();
+    expect(attemptSignal?.aborted).toBe(true);
+    expect(onStop).toHaveBeenCalledWith("aborted", undefined);
+
+    await advance(10000);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("never polls with an already aborted signal", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const task = vi.fn().mockResolvedValue(undefined);
+    const onStop = vi.fn();
+    startPolling(task, { interval: 1000, signal: controller.signal, onStop });
+
+    await advance(10000);
+    expect(task).not.toHaveBeenCalled();
+    expect(onStop).toHaveBeenCalledWith("aborted", undefined);
+  });
+
+  it("ignores a result that settles after stop", async () => {
+    let resolveTask: (value: string) => void = () => undefined;
+    const task = vi.fn(
+      () => new Promise<string>((resolve) => (resolveTask = resolve))
+    );
+    const isComplete = vi.fn(() => true);
+    const onStop = vi.fn();
+    const scheduler = startPolling(task, {
+      interval: 1000,
+      isComplete,
+      onStop,
+    });
+
+    await advance(0);
+    scheduler.stop();
+    resolveTask("late");
+    await advance(10000);
+
+    expect(isComplete).not.toHaveBeenCalled();
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(onStop).toHaveBeenCalledTimes(1);
+    expect(onStop).toHaveBeenCalledWith("stopped", undefined);
+  });
+
+  describe("when the tab is hidden", () => {
+    const stubDocument = (visibilityState: DocumentVisibilityState) => {
+      const target = new EventTarget();
+      const fakeDocument = {
+        visibilityState,
+        addEventListener: target.addEventListener.bind(target),
+        removeEventListener: target.removeEventListener.bind(target),
+        dispatchEvent: target.dispatchEvent.bind(target),
+      };
+      vi.stubGlobal("document", fakeDocument);
+      return fakeDocument;
+    };
+
+    it("pauses with pauseWhenHidden and polls again once visible", async () => {
+      const fakeDocument = stubDocument("hidden");
+      const task = vi.fn().mockResolvedValue(undefined);
+      const onStop = vi.fn();
+      const scheduler = startPolling(task, {
+        interval: 1000,
+        pauseWhenHidden: true,
+        onStop,
+      });
+
+      await advance(10000);
+      expect(task).not.toHaveBeenCalled();
+      expect(onStop).not.toHaveBeenCalled();
+
+      fakeDocument.visibilityState = "visible";
+      fakeDocument.dispatchEvent(new Event("visibilitychange"));
+      await advance(0);
+      expect(task).toHaveBeenCalledTimes(1);
+
+      await advance(1000);
+      expect(task).toHaveBeenCalledTimes(2);
+      scheduler.stop();
+    });
+
+    it("pauses between attempts when the tab becomes hidden", async () => {
+      const fakeDocument = stubDocument("visible");
+      const task = vi.fn().mockResolvedValue(undefined);
+      const scheduler = startPolling(task, {
+        interval: 1000,
+        pauseWhenHidden: true,
+      });
+
+      await advance(0);
+      fakeDocument.visibilityState = "hidden";
+      await advance(10000);
+      expect(task).toHaveBeenCalledTimes(1);
+      scheduler.stop();
+    });
+
+    it("keeps polling without pauseWhenHidden", async () => {
+      stubDocument("hidden");
+      const task = vi.fn().mockResolvedValue(undefined);
+      const scheduler = startPolling(task, { interval: 1000 });
+
+      await advance(2000);
+      expect(task).toHaveBeenCalledTimes(3);
+      scheduler.stop();
+    });
+
+    it("stops listening for visibility changes once stopped", async () => {
+      const fakeDocument = stubDocument("hidden");
+      const removeListener = vi.spyOn(fakeDocument, "removeEventListener");
+      const scheduler = startPolling(vi.fn().mockResolvedValue(undefined), {
+        interval: 1000,
+        pauseWhenHidden: true,
+      });
+
+      scheduler.stop();
+      expect(removeListener).toHaveBeenCalledWith(
+        "visibilitychange",
+        expect.any(Function)
+      );
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Polling scheduler shared by every polling loop in the app
+ */
+
+export type PollingStopReason =
+  | "completed"
+  | "max_attempts"
+  | "error"
+  | "aborted"
+  | "stopped";
+
+export interface PollingSchedulerOptions<T> {
+  // Delay between attempts, fixed or computed from the 1-based attempt number
+  interval: number | ((attempt: number) => number);
+  // Fraction of each delay randomly added or removed, e.g. 0.2 for ±20%
+  jitter?: number;
+  initialDelay?: number;
+  maxAttempts?: number;
+  // Stops the scheduler and aborts the in-flight attempt when aborted
+  signal?: AbortSignal;
+  // Skip attempts while the tab is hidden and poll again once it is visible
+  pauseWhenHidden?: boolean;
+  isComplete?: (result: T, attempt: number) => boolean;
+  shouldStopOnError?: (error: unknown, consecutiveErrors: number) => boolean;
+  onStop?: (reason: PollingStopReason, lastResult?: T) => void;
+}
+
+export interface PollingScheduler {
+  stop: () => void;
+}
+
+/**
+ * Randomize a delay so concurrent clients do not poll in lockstep
+ * @param delay - The delay in ms
+ * @param jitter - Fraction of the delay to add or remove
+ * @param random - Random source returning values in [0, 1)
+ * @returns The randomized delay, never negative
+ */
+export const applyJitter = (
+  delay: number,
+  jitter = 0,
+  random: () => number = Math.random
+): number => {
+  if (jitter <= 0) return delay;
+  return Math.max(0, Math.round(delay * (1 + (random() * 2 - 1) * jitter)));
+};
+
+const isDocumentHidden = (): boolean =>
+  typeof document !== "undefined" && document.visibilityState === "hidden";
+
+/**
+ * Start polling a task until it completes, fails, runs out of attempts or is
+ * stopped. Attempts never overlap: the next one is scheduled only after the
+ * previous one settles.
+ * @param task - The polled task, receiving the attempt number and a signal
+ * @param options - Scheduling options
+ * @returns Handle to control the scheduler
+ */
+export const startPolling = <T>(
+  task: (attempt: number, signal: AbortSignal) => Promise<T>,
+  options: PollingSchedulerOptions<T>
+): PollingScheduler => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = true;
+  let inFlight = false;
+  let paused = false;
+  let attempt = 0;
+  let consecutiveErrors = 0;
+  let lastResult: T | undefined;
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const getDelay = (completedAttempt: number) => {
+    const base =
+      typeof options.interval === "function"
+        ? options.interval(completedAttempt)
+        : options.interval;
+    return applyJitter(base, options.jitter);
+  };
+
+  const handleVisibilityChange = () => {
+    if (paused && !isDocumentHidden()) {
+      paused = false;
+      schedule(0);
+    }
+  };
+
+  const handleAbort = () => finish("aborted");
+
+  const finish = (reason: PollingStopReason) => {
+    if (!running) return;
+    running = false;
+    clearTimer();
+    controller.abort();
+    options.signal?.removeEventListener("abort", handleAbort);
+    if (typeof document !== "undefined") {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    }
+    options.onStop?.(reason, lastResult);
+  };
+
+  const run = async () => {
+    timer = null;
+    if (!running || inFlight) return;
+    if (options.pauseWhenHidden && isDocumentHidden()) {
+      paused = true;
+      return;
+    }
+
+    inFlight = true;
+    attempt += 1;
+    const current = attempt;
+
+    try {
+      const result = await task(current, controller.signal);
+      if (!running) return;
+      lastResult = result;
+      consecutiveErrors = 0;
+      if (options.isComplete?.(result, current)) {
+        finish("completed");
+        return;
+      }
+    } catch (error) {
+      if (!running) return;
+      consecutiveErrors += 1;
+      if (options.shouldStopOnError?.(error, consecutiveErrors)) {
+        finish("error");
+        return;
+      }
+    } finally {
+      inFlight = false;
+    }
+
+    if (options.maxAttempts && current >= options.maxAttempts) {
+      finish("max_attempts");
+      return;
+    }
+    schedule(getDelay(current));
+  };
+
+  const schedule = (delay: number) => {
+    clearTimer();
+    if (running) timer = setTimeout(run, delay);
+  };
+
+  if (options.signal?.aborted) {
+    finish("aborted");
+  } else {
+    options.signal?.addEventListener("abort", handleAbort, { once: true });
+    if (options.pauseWhenHidden && typeof document !== "undefined") {
+      document.addEventListener("visibilitychange", handleVisibilityChange);
+    }
+    schedule(options.initialDelay ?? 0);
+  }
+
+  return { stop: () => finish("stopped") };
+};
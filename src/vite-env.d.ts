@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+// Variables validated by src/config.ts
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_ANALYSIS_PROVIDER?: string;
+  readonly VITE_ANALYSIS_BACKEND_URL?: string;
+  readonly VITE_DUST_AGENT_CONFIG_ID?: string;
+  readonly VITE_MOCK_ANALYSIS_SCENARIO?: string;
+  readonly VITE_POLL_INTERVAL_MS?: string;
+  readonly VITE_MAX_POLL_ATTEMPTS?: string;
+  readonly VITE_ANALYSIS_FRESHNESS_TTL_DAYS?: string;
+  readonly VITE_LOG_LEVEL?: string;
+  readonly VITE_LOG_REMOTE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { checkAnalysisContent } from "./analysisContent.ts";
+import { ANALYSIS_FIXTURES } from "./analysisFixtures.ts";
+
+const { polls } = ANALYSIS_FIXTURES.success;
+const recordedContent = (
+  polls[polls.length - 1].body as {
+    response: { data: { content: Record<string, unknown> } };
+  }
+).response.data.content;
+
+describe("checkAnalysisContent", () => {
+  it("accepts the recorded analysis of the job's domain", () => {
+    expect(checkAnalysisContent(recordedContent, "netflix.com")).toBeNull();
+    expect(
+      checkAnalysisContent(JSON.stringify(recordedContent), "netflix.com")
+    ).toBeNull();
+  });
+
+  it("rejects an analysis of another domain", () => {
+    expect(checkAnalysisContent(recordedContent, "example.com")).toBe(
+      "The analysis is about netflix.com, not example.com"
+    );
+  });
+
+  it("compares normalized domains", () => {
+    const content = {
+      ...recordedContent,
+      company: { name: "Netflix", domain: "https://www.Netflix.com/" },
+    };
+    expect(checkAnalysisContent(content, "netflix.com")).toBeNull();
+  });
+
+  it("accepts an analysis that does not name the company's domain", () => {
+    const { company: _company, ...content } = recordedContent;
+    expect(checkAnalysisContent(content, "example.com")).toBeNull();
+  });
+
+  it("rejects an analysis without competitors", () => {
+    expect(
+      checkAnalysisContent(
+        { ...recordedContent, competitors: [] },
+        "netflix.com"
+      )
+    ).toBe("The analysis lists no competitors");
+    expect(
+      checkAnalysisContent(
+        { ...recordedContent, competitors: [{ description: "No name" }] },
+        "netflix.com"
+      )
+    ).toBe("The analysis lists no competitors");
+    expect(checkAnalysisContent({ status: "ok" }, "netflix.com")).toBe(
+      "The analysis lists no competitors"
+    );
+  });
+
+  it("accepts competitor lists under their other keys", () => {
+    expect(
+      checkAnalysisContent({ competitor_list: ["hulu.com"] }, "netflix.com")
+    ).toBeNull();
+    expect(
+      checkAnalysisContent(
+        { top_competitors: [{ company_name: "Hulu" }] },
+        "netflix.com"
+      )
+    ).toBeNull();
+  });
+
+  it("accepts legacy program payloads", () => {
+    expect(
+      checkAnalysisContent(
+        {
+          company_summary: { company_name: "Acme", domain: "acme.com" },
+          programs_list: ["Rewards"],
+          program_1_details: { program_description: "Points on purchases" },
+        },
+        "acme.com"
+      )
+    ).toBeNull();
+    expect(
+      checkAnalysisContent(
+        { programs_list: { first: { program_name: "Rewards" } } },
+        "acme.com"
+      )
+    ).toBeNull();
+  });
+
+  it("accepts competitor domains as a list or as text", () => {
+    expect(checkAnalysisContent(["hulu.com"], "netflix.com")).toBeNull();
+    expect(checkAnalysisContent("hulu.com, max.com", "netflix.com")).toBeNull();
+    expect(checkAnalysisContent([], "netflix.com")).toBe(
+      "The analysis lists no competitors"
+    );
+    expect(checkAnalysisContent(" , ", "netflix.com")).toBe(
+      "The analysis lists no competitors"
+    );
+  });
+
+  it("rejects missing content", () => {
+    expect(checkAnalysisContent(undefined, "netflix.com")).toBe(
+      "The analysis content is missing"
+    );
+    expect(checkAnalysisContent(42, "netflix.com")).toBe(
+      "The analysis content is missing"
+    );
+  });
+});
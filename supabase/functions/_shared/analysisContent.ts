@@ -0,0 +1,117 @@
+/**
+ * Structural check of agent answers before the process-analysis-jobs edge
+ * function stores them with the service role, which bypasses the insert
+ * policy of competitor_stack.
+ *
+ * Jobs are enqueued by browsers, so a job may point at any conversation. The
+ * answer is only stored when it lists competitors and, when it names the
+ * analyzed company's domain, that domain is the job's. The browser parses the
+ * stored answer in full (see src/utils/parsePlanData.ts); this check accepts
+ * the same shapes without its dependencies.
+ */
+
+// Keys listing competitors, in the order the browser looks them up
+const COMPETITOR_LIST_KEYS = [
+  "competitors",
+  "competitor_list",
+  "top_competitors",
+  "programs_list",
+];
+
+// Legacy payloads detail each program under program_<n>_details
+const LEGACY_PROGRAM_DETAILS_PATTERN = /^program_\d+_details$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isText = (value: unknown): boolean =>
+  typeof value === "string" && value.trim().length > 0;
+
+const normalizeDomain = (domain: string): string =>
+  domain
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/.*$/, "")
+    .replace(/^www\./, "");
+
+// A competitor is a bare domain or an object with a name or a domain
+const isCompetitorEntry = (entry: unknown): boolean =>
+  isText(entry) ||
+  (isRecord(entry) &&
+    ["name", "company_name", "domain", "program_name"].some((key) =>
+      isText(entry[key])
+    ));
+
+const decodeJsonContent = (content: unknown): unknown => {
+  if (typeof content !== "string") return content;
+  const text = content.trim();
+  if (!text.startsWith("{") && !text.startsWith("[")) return content;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return content;
+  }
+};
+
+// Program details without a name are named after the programs_list entry
+const getCompetitorEntries = (content: Record<string, unknown>): unknown[] => {
+  const details = Object.keys(content)
+    .filter((key) => LEGACY_PROGRAM_DETAILS_PATTERN.test(key))
+    .map((key) => content[key]);
+
+  for (const key of COMPETITOR_LIST_KEYS) {
+    const list = content[key];
+    if (Array.isArray(list)) return [...details, ...list];
+    if (key === "programs_list" && isRecord(list)) {
+      return [...details, ...Object.values(list)];
+    }
+  }
+  return details;
+};
+
+/**
+ * Check that agent answer content can be stored as the analysis of a domain
+ * @param content - The answer content, structured or free text
+ * @param domain - The normalized domain of the job
+ * @returns Why the content cannot be stored, or null when it can
+ */
+export const checkAnalysisContent = (
+  content: unknown,
+  domain: string
+): string | null => {
+  const decoded = decodeJsonContent(content);
+
+  // Comma separated competitor domains
+  if (typeof decoded === "string") {
+    return decoded.split(",").some(isText)
+      ? null
+      : "The analysis lists no competitors";
+  }
+
+  if (Array.isArray(decoded)) {
+    return decoded.some(isCompetitorEntry)
+      ? null
+      : "The analysis lists no competitors";
+  }
+
+  if (!isRecord(decoded)) return "The analysis content is missing";
+
+  const company = isRecord(decoded.company)
+    ? decoded.company
+    : isRecord(decoded.company_summary)
+    ? decoded.company_summary
+    : undefined;
+  if (
+    company &&
+    typeof company.domain === "string" &&
+    isText(company.domain) &&
+    normalizeDomain(company.domain) !== domain
+  ) {
+    return `The analysis is about ${company.domain}, not ${domain}`;
+  }
+
+  return getCompetitorEntries(decoded).some(isCompetitorEntry)
+    ? null
+    : "The analysis lists no competitors";
+};
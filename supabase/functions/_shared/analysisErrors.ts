@@ -0,0 +1,200 @@
+/**
+ * Typed errors produced by the analysis API layer, shared by the browser and
+ * the edge functions. The kind drives the retry policy and the error screen.
+ */
+
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "client"
+  | "server"
+  | "rate_limited"
+  | "content"
+  | "unknown_conversation"
+  | "unknown";
+
+export const API_ERROR_KINDS: ApiErrorKind[] = [
+  "network",
+  "timeout",
+  "client",
+  "server",
+  "rate_limited",
+  "content",
+  "unknown_conversation",
+  "unknown",
+];
+
+interface ApiErrorOptions {
+  status?: number;
+  body?: string;
+  // Delay requested by the server through Retry-After
+  retryAfterMs?: number;
+}
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  body?: string;
+  retryAfterMs?: number;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: ApiErrorOptions = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = options.status;
+    this.body = options.body;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// The request never reached the server or the connection dropped
+export class NetworkError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super("network", message, options);
+    this.name = "NetworkError";
+  }
+}
+
+// The request did not complete within its time budget
+export class TimeoutError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super("timeout", message, options);
+    this.name = "TimeoutError";
+  }
+}
+
+// 4xx response: the request itself is wrong and retrying will not help
+export class ClientError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super("client", message, options);
+    this.name = "ClientError";
+  }
+}
+
+// 5xx response
+export class ServerError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super("server", message, options);
+    this.name = "ServerError";
+  }
+}
+
+// 429 response, usually with a Retry-After delay
+export class RateLimitError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super("rate_limited", message, options);
+    this.name = "RateLimitError";
+  }
+}
+
+// The agent answered, but with an error message instead of an analysis
+export class ContentError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super("content", message, options);
+    this.name = "ContentError";
+  }
+}
+
+// The conversation does not exist (anymore) on the backend
+export class UnknownConversationError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super("unknown_conversation", message, options);
+    this.name = "UnknownConversationError";
+  }
+}
+
+/**
+ * Create the error class matching a kind, e.g. for a kind stored in the database
+ * @param kind - The error kind
+ * @param message - The error message
+ * @returns The typed error
+ */
+export const createApiError = (
+  kind: ApiErrorKind,
+  message: string,
+  options?: ApiErrorOptions
+): ApiError => {
+  switch (kind) {
+    case "network":
+      return new NetworkError(message, options);
+    case "timeout":
+      return new TimeoutError(message, options);
+    case "client":
+      return new ClientError(message, options);
+    case "server":
+      return new ServerError(message, options);
+    case "rate_limited":
+      return new RateLimitError(message, options);
+    case "content":
+      return new ContentError(message, options);
+    case "unknown_conversation":
+      return new UnknownConversationError(message, options);
+    default:
+      return new ApiError("unknown", message, options);
+  }
+};
+
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date
+ * @param value - The header value
+ * @param now - Current time in milliseconds
+ * @returns The delay in milliseconds, if the header is usable
+ */
+export const parseRetryAfter = (
+  value: string | null | undefined,
+  now = Date.now()
+): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Classify a non-OK HTTP response
+ * @param status - The response status
+ * @param body - The response body
+ * @param options - Retry-After header and whether the request targets a conversation
+ * @returns The typed error
+ */
+export const createHttpError = (
+  status: number,
+  body: string,
+  {
+    retryAfter,
+    isConversationRequest = false,
+  }: { retryAfter?: string | null; isConversationRequest?: boolean } = {}
+): ApiError => {
+  const message = `Server error: ${status} - ${body}`;
+  const options = { status, body, retryAfterMs: parseRetryAfter(retryAfter) };
+
+  if (status === 429) return new RateLimitError(message, options);
+  if (status === 408) return new TimeoutError(message, options);
+  if (status === 404 && isConversationRequest) {
+    return new UnknownConversationError(message, options);
+  }
+  if (status >= 500) return new ServerError(message, options);
+  if (status >= 400) return new ClientError(message, options);
+  return new ApiError("unknown", message, options);
+};
+
+/**
+ * Convert anything thrown by a request into a typed error
+ * @param error - The caught error
+ * @returns The error itself when already typed, otherwise its classification
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  // fetch rejects with a TypeError when the network request fails
+  if (error instanceof TypeError) return new NetworkError(message);
+  return new ApiError("unknown", message);
+};
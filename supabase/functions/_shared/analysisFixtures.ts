@@ -0,0 +1,230 @@
+/**
+ * Scripted analysis-answer responses replayed by the mock analysis provider
+ * Each scenario lists the start response and the response of every poll
+ * attempt; the last poll response repeats once the list is exhausted. They
+ * are written by hand in the shape of the Dust responses; answers captured
+ * from real conversations are in capturedFalsePositives.json
+ */
+
+export type MockScenario =
+  | "success"
+  | "slow"
+  | "failing"
+  | "content-error"
+  | "refusal"
+  | "rate-limited"
+  | "start-failure";
+
+export interface RecordedResponse {
+  status: number;
+  latencyMs: number;
+  body?: unknown;
+  error?: string;
+  // Retry-After header sent with the response
+  retryAfter?: string;
+}
+
+export interface AnalysisFixture {
+  description: string;
+  start: RecordedResponse;
+  polls: RecordedResponse[];
+}
+
+const RUNNING_ANSWER: RecordedResponse = {
+  status: 200,
+  latencyMs: 300,
+  body: { status: "running", response: { state: "running" } },
+};
+
+const COMPLETED_ANSWER: RecordedResponse = {
+  status: 200,
+  latencyMs: 400,
+  body: {
+    status: "succeeded",
+    response: {
+      state: "completed",
+      data: {
+        content: {
+          company: {
+            name: "Netflix",
+            domain: "netflix.com",
+            industry: "Video streaming",
+            description:
+              "Subscription streaming service offering films, series and games.",
+            business_model: "Monthly subscription with an ad-supported tier",
+            target_audience: "Households and individual viewers worldwide",
+            market_position: "Global leader in subscription video on demand",
+          },
+          competitors: [
+            {
+              name: "Disney+",
+              domain: "disneyplus.com",
+              description:
+                "Streaming service for Disney, Pixar, Marvel and Star Wars.",
+              business_model: "Subscription bundled with Hulu and ESPN+",
+              target_audience: "Families and franchise fans",
+              market_position: "Fast-growing challenger with strong IP",
+              strengths: ["Iconic franchises", "Family-friendly catalog"],
+              weaknesses: ["Smaller adult catalog", "Recent price increases"],
+            },
+            {
+              name: "Prime Video",
+              domain: "primevideo.com",
+              description: "Amazon's streaming service included with Prime.",
+              business_model: "Included in Prime membership, with rentals",
+              target_audience: "Amazon Prime members",
+              market_position: "Broad reach through the Prime bundle",
+              strengths: ["Bundled with shopping benefits", "Sports rights"],
+              weaknesses: ["Cluttered interface", "Ads in the base tier"],
+            },
+            {
+              name: "Max",
+              domain: "max.com",
+              description: "Warner Bros. Discovery's streaming service.",
+              business_model: "Tiered subscription",
+              target_audience: "Viewers of premium series and films",
+              market_position: "Premium content specialist",
+              strengths: ["Prestige HBO series", "Warner Bros. film library"],
+              weaknesses: [
+                "Frequent rebranding",
+                "Unable to match Netflix's global footprint",
+              ],
+            },
+          ],
+          market_insights:
+            "Streaming growth is shifting from subscriber acquisition to retention, ad tiers and bundles.",
+          recommendations: [
+            "Expand live and sports programming to reduce churn",
+            "Grow the ad-supported tier in price-sensitive markets",
+          ],
+        },
+      },
+    },
+  },
+};
+
+export const ANALYSIS_FIXTURES: Record<MockScenario, AnalysisFixture> = {
+  success: {
+    description: "Completes after one running poll",
+    start: {
+      status: 200,
+      latencyMs: 500,
+      body: { conversationSId: "" },
+    },
+    polls: [RUNNING_ANSWER, COMPLETED_ANSWER],
+  },
+  slow: {
+    description: "Slow backend: six running polls with high latency",
+    start: {
+      status: 200,
+      latencyMs: 2500,
+      body: { conversationSId: "" },
+    },
+    polls: [
+      ...Array.from({ length: 6 }, () => ({
+        ...RUNNING_ANSWER,
+        latencyMs: 4000,
+      })),
+      { ...COMPLETED_ANSWER, latencyMs: 4000 },
+    ],
+  },
+  failing: {
+    description: "Backend errors, then the conversation is lost",
+    start: {
+      status: 200,
+      latencyMs: 500,
+      body: { conversationSId: "" },
+    },
+    polls: [
+      RUNNING_ANSWER,
+      { status: 502, latencyMs: 1000, error: "Bad Gateway" },
+      { status: 500, latencyMs: 300, error: "Internal Server Error" },
+      {
+        status: 404,
+        latencyMs: 200,
+        error: '{"error":"No agent response found"}',
+      },
+    ],
+  },
+  "content-error": {
+    description: "Succeeds with an apology instead of an analysis",
+    start: {
+      status: 200,
+      latencyMs: 500,
+      body: { conversationSId: "" },
+    },
+    polls: [
+      RUNNING_ANSWER,
+      {
+        status: 200,
+        latencyMs: 400,
+        body: {
+          status: "succeeded",
+          response: {
+            state: "completed",
+            data: {
+              content:
+                "I'm sorry, I encountered an issue and couldn't analyze this domain. Please check that it is a valid company website.",
+            },
+          },
+        },
+      },
+    ],
+  },
+  refusal: {
+    description: "Succeeds with an explicit refusal instead of an analysis",
+    start: {
+      status: 200,
+      latencyMs: 500,
+      body: { conversationSId: "" },
+    },
+    polls: [
+      RUNNING_ANSWER,
+      {
+        status: 200,
+        latencyMs: 400,
+        body: {
+          status: "succeeded",
+          response: {
+            state: "completed",
+            data: {
+              content: {
+                refusal:
+                  "This domain does not belong to a company, so there are no competitors to analyze.",
+              },
+            },
+          },
+        },
+      },
+    ],
+  },
+  "rate-limited": {
+    description: "Rate limited once with a Retry-After, then completes",
+    start: {
+      status: 200,
+      latencyMs: 500,
+      body: { conversationSId: "" },
+    },
+    polls: [
+      {
+        status: 429,
+        latencyMs: 200,
+        error: '{"error":"Too many requests"}',
+        retryAfter: "3",
+      },
+      RUNNING_ANSWER,
+      COMPLETED_ANSWER,
+    ],
+  },
+  "start-failure": {
+    description: "The backend rejects the start request",
+    start: {
+      status: 503,
+      latencyMs: 800,
+      error: '{"error":"Agent temporarily unavailable"}',
+    },
+    polls: [{ status: 404, latencyMs: 200, error: "Conversation not found" }],
+  },
+};
+
+export const MOCK_SCENARIOS = Object.keys(ANALYSIS_FIXTURES) as MockScenario[];
@@ -0,0 +1,247 @@
+/**
+ * Analysis providers shared by the browser and the edge functions
+ * A provider starts an agent conversation, returns the raw analysis-answer
+ * payload of a poll attempt and cancels a conversation. Failures reject with
+ * a typed ApiError; aborted calls reject with the abort reason.
+ */
+import {
+  ANALYSIS_FIXTURES,
+  MOCK_SCENARIOS,
+  type MockScenario,
+  type RecordedResponse,
+} from "./analysisFixtures.ts";
+import { createHttpError, ServerError } from "./analysisErrors.ts";
+import { wait } from "./retry.ts";
+
+export type AnalysisProviderName = "dust" | "mock";
+
+export interface StartAnalysisResult {
+  conversationId: string;
+  // HTTP status and body of the start request, for debug logs
+  response: { status: number; body: unknown };
+}
+
+export interface AnalysisProvider {
+  readonly name: AnalysisProviderName;
+  start: (domain: string, signal?: AbortSignal) => Promise<StartAnalysisResult>;
+  // Resolves with the raw analysis-answer payload
+  poll: (
+    conversationId: string,
+    attempt: number,
+    signal?: AbortSignal
+  ) => Promise<unknown>;
+  cancel: (conversationId: string, signal?: AbortSignal) => Promise<void>;
+}
+
+export interface AnalysisProviderOptions {
+  provider?: string;
+  backendUrl?: string;
+  agentConfigId?: string;
+  mockScenario?: string;
+  // Multiplier applied to recorded latencies, 0 to replay instantly
+  mockLatencyScale?: number;
+}
+
+export const DEFAULT_DUST_BACKEND_URL =
+  "https://dusty-backend.netlify.app/.netlify/functions";
+export const DEFAULT_DUST_AGENT_CONFIG_ID = "ie0BWeH59h";
+
+const MOCK_CONVERSATION_PREFIX = "mock_";
+
+/**
+ * Provider backed by the Dust agent behind the Netlify backend
+ */
+export const createDustProvider = ({
+  backendUrl = DEFAULT_DUST_BACKEND_URL,
+  agentConfigId = DEFAULT_DUST_AGENT_CONFIG_ID,
+}: AnalysisProviderOptions = {}): AnalysisProvider => ({
+  name: "dust",
+
+  start: async (domain, signal) => {
+    const response = await fetch(`${backendUrl}/start-analysis`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        prompt: `Analyze company ${domain}`,
+        inputs: { company: domain },
+        agentConfigId,
+      }),
+      signal,
+    });
+
+    const responseText = await response.text();
+    if (!response.ok) {
+      throw createHttpError(response.status, responseText, {
+        retryAfter: response.headers.get("Retry-After"),
+      });
+    }
+
+    let body: { conversationSId?: unknown };
+    try {
+      body = JSON.parse(responseText);
+    } catch (parseError) {
+      throw new ServerError(
+        `Invalid response format: ${responseText.slice(0, 100)}...`,
+        { status: response.status, body: responseText }
+      );
+    }
+
+    if (!body || typeof body.conversationSId !== "string") {
+      throw new ServerError("Invalid response: missing conversationSId", {
+        status: response.status,
+        body: responseText,
+      });
+    }
+
+    return {
+      conversationId: body.conversationSId,
+      response: { status: response.status, body },
+    };
+  },
+
+  poll: async (conversationId, _attempt, signal) => {
+    const response = await fetch(
+      `${backendUrl}/analysis-answer?id=${encodeURIComponent(conversationId)}`,
+      { headers: { "Content-Type": "application/json" }, signal }
+    );
+
+    if (!response.ok) {
+      throw createHttpError(response.status, await response.text(), {
+        retryAfter: response.headers.get("Retry-After"),
+        isConversationRequest: true,
+      });
+    }
+
+    return response.json();
+  },
+
+  cancel: async (conversationId, signal) => {
+    const response = await fetch(`${backendUrl}/cancel-analysis`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ conversationId }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw createHttpError(response.status, await response.text(), {
+        retryAfter: response.headers.get("Retry-After"),
+        isConversationRequest: true,
+      });
+    }
+  },
+});
+
+/**
+ * Get the mock scenario encoded in a mock conversation ID
+ * @param conversationId - The conversation ID
+ * @returns The scenario, or null for non-mock conversations
+ */
+export const getMockScenario = (
+  conversationId: string
+): MockScenario | null => {
+  if (!conversationId.startsWith(MOCK_CONVERSATION_PREFIX)) return null;
+  const scenario = MOCK_SCENARIOS.find((name) =>
+    conversationId.startsWith(`${MOCK_CONVERSATION_PREFIX}${name}_`)
+  );
+  return scenario ?? null;
+};
+
+/**
+ * Replay a recorded non-OK response as the error the Dust provider would throw
+ */
+const toRecordedError = (
+  recorded: RecordedResponse,
+  isConversationRequest: boolean
+) =>
+  createHttpError(recorded.status, recorded.error ?? "", {
+    retryAfter: recorded.retryAfter,
+    isConversationRequest,
+  });
+
+/**
+ * Pick the scenario for a domain: a first label naming a scenario
+ * (e.g. "slow.acme.com") overrides the configured default
+ */
+const resolveMockScenario = (
+  domain: string,
+  fallback: MockScenario
+): MockScenario => {
+  const label = domain.split(".")[0]?.toLowerCase();
+  return MOCK_SCENARIOS.find((name) => name === label) ?? fallback;
+};
+
+/**
+ * Deterministic provider replaying recorded responses, for offline work
+ * The scenario is encoded in the conversation ID, so any instance (browser
+ * or edge function) replays the same responses for the same poll attempt
+ */
+export const createMockProvider = ({
+  mockScenario,
+  mockLatencyScale = 1,
+}: AnalysisProviderOptions = {}): AnalysisProvider => {
+  const defaultScenario =
+    MOCK_SCENARIOS.find((name) => name === mockScenario) ?? "success";
+  const cancelled = new Set<string>();
+  let sequence = 0;
+
+  return {
+    name: "mock",
+
+    start: async (domain, signal) => {
+      const scenario = resolveMockScenario(domain, defaultScenario);
+      const { start } = ANALYSIS_FIXTURES[scenario];
+      await wait(start.latencyMs * mockLatencyScale, signal);
+
+      if (start.status !== 200) throw toRecordedError(start, false);
+
+      sequence += 1;
+      const conversationId = `${MOCK_CONVERSATION_PREFIX}${scenario}_${Date.now().toString(
+        36
+      )}${sequence}`;
+      return {
+        conversationId,
+        response: { status: 200, body: { conversationSId: conversationId } },
+      };
+    },
+
+    poll: async (conversationId, attempt, signal) => {
+      const scenario = getMockScenario(conversationId);
+      if (!scenario) {
+        throw toRecordedError(
+          { status: 404, latencyMs: 0, error: "Conversation not found" },
+          true
+        );
+      }
+      if (cancelled.has(conversationId)) {
+        return { status: "cancelled", response: { state: "cancelled" } };
+      }
+
+      const { polls } = ANALYSIS_FIXTURES[scenario];
+      const step = polls[Math.min(Math.max(attempt, 1), polls.length) - 1];
+      await wait(step.latencyMs * mockLatencyScale, signal);
+
+      if (step.status !== 200) throw toRecordedError(step, true);
+
+      // Return a copy: callers may annotate the answer
+      return JSON.parse(JSON.stringify(step.body));
+    },
+
+    cancel: async (conversationId, signal) => {
+      await wait(0, signal);
+      cancelled.add(conversationId);
+    },
+  };
+};
+
+/**
+ * Create the provider named in the configuration
+ * @param options - Provider name and provider settings
+ * @returns The Dust provider unless the mock one is requested
+ */
+export const createAnalysisProvider = (
+  options: AnalysisProviderOptions = {}
+): AnalysisProvider =>
+  options.provider === "mock"
+    ? createMockProvider(options)
+    : createDustProvider(options);
@@ -0,0 +1,26 @@
+/**
+ * Cancel tokens of analysis jobs, shared by the browser that creates a job and
+ * the process-analysis-jobs edge function that checks them. Only the SHA-256
+ * hash of a token is stored, since analysis jobs are publicly readable.
+ */
+
+/**
+ * Create a random cancel token
+ * @returns The token, kept by the browser that creates the job
+ */
+export const createCancelToken = (): string => crypto.randomUUID();
+
+/**
+ * Hash a cancel token
+ * @param token - The cancel token
+ * @returns The lowercase hex SHA-256 hash stored with the job
+ */
+export const hashCancelToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+};
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { detectContentError } from "./contentErrors.ts";
+import { checkAnalysisContent } from "./analysisContent.ts";
+import { ANALYSIS_FIXTURES, type MockScenario } from "./analysisFixtures.ts";
+import capturedFalsePositives from "./capturedFalsePositives.json";
+
+// Content of the last scripted answer of a mock scenario
+const getRecordedContent = (scenario: MockScenario): unknown => {
+  const { polls } = ANALYSIS_FIXTURES[scenario];
+  const body = polls[polls.length - 1].body as {
+    response: { data: { content: unknown } };
+  };
+  return body.response.data.content;
+};
+
+describe("detectContentError", () => {
+  describe("structured analyses", () => {
+    const analysis = getRecordedContent("success") as Record<string, unknown>;
+
+    it("accepts a mock analysis whose weaknesses say 'Unable to'", () => {
+      expect(JSON.stringify(analysis)).toContain("Unable to match");
+      expect(detectContentError(analysis)).toBeNull();
+    });
+
+    it("never phrase-matches text inside structured content", () => {
+      expect(
+        detectContentError({
+          ...analysis,
+          market_insights:
+            "I'm sorry to say an error occurred in their billing; they were unable to recover and failed to analyze churn.",
+        })
+      ).toBeNull();
+    });
+
+    it("accepts a structured analysis sent as JSON text", () => {
+      expect(detectContentError(JSON.stringify(analysis))).toBeNull();
+    });
+
+    it("ignores empty error and refusal fields", () => {
+      expect(detectContentError({ ...analysis, error: null })).toBeNull();
+      expect(detectContentError({ ...analysis, refusal: "" })).toBeNull();
+    });
+
+    it("accepts content that is not an object", () => {
+      expect(detectContentError(undefined)).toBeNull();
+      expect(detectContentError(null)).toBeNull();
+      expect(detectContentError([{ name: "Error Inc." }])).toBeNull();
+    });
+  });
+
+  describe("explicit error and refusal fields", () => {
+    it("reports the mock refusal", () => {
+      expect(detectContentError(getRecordedContent("refusal"))).toEqual({
+        type: "refusal",
+        message:
+          "This domain does not belong to a company, so there are no competitors to analyze.",
+      });
+    });
+
+    it("reports an error string", () => {
+      expect(detectContentError({ error: " Domain not found " })).toEqual({
+        type: "error",
+        message: "Domain not found",
+      });
+    });
+
+    it("reads the message of an error object", () => {
+      expect(
+        detectContentError({ error: { code: 404, message: "No website" } })
+      ).toEqual({ type: "error", message: "No website" });
+    });
+
+    it("falls back to a default message", () => {
+      expect(detectContentError({ error: true })).toEqual({
+        type: "error",
+        message: "The agent could not analyze this domain",
+      });
+      expect(detectContentError({ refusal: { code: 1 } })?.type).toBe(
+        "refusal"
+      );
+    });
+
+    it("prefers the refusal when both are present", () => {
+      expect(
+        detectContentError({ error: "Failed", refusal: "Not a company" })
+      ).toEqual({ type: "refusal", message: "Not a company" });
+    });
+
+    it("detects the fields in JSON text", () => {
+      expect(detectContentError('{"refusal":"Not a company"}')).toEqual({
+        type: "refusal",
+        message: "Not a company",
+      });
+    });
+  });
+
+  describe("plain-text answers", () => {
+    it("reports the mock apology", () => {
+      const content = getRecordedContent("content-error") as string;
+      expect(detectContentError(content)).toEqual({
+        type: "error",
+        message: content,
+      });
+    });
+
+    it.each([
+      "Unable to find a company website for this domain.",
+      "An error occurred while browsing the site.",
+      "INVALID DOMAIN",
+    ])("reports %j", (content) => {
+      expect(detectContentError(content)?.type).toBe("error");
+    });
+
+    it("checks text that only looks like JSON as free text", () => {
+      expect(detectContentError("{I'm sorry, no data}")?.type).toBe("error");
+    });
+
+    it("accepts text without an apology", () => {
+      expect(
+        detectContentError("Netflix competes with Disney+ and Max.")
+      ).toBeNull();
+    });
+  });
+
+  // Stored answers captured by supabase/scripts/capture-false-positives.ts
+  describe.skipIf(capturedFalsePositives.length === 0)(
+    "captured answers the phrase matcher flagged",
+    () => {
+      it.each(capturedFalsePositives)(
+        "accepts the stored analysis $id of $domain",
+        ({ domain, content }) => {
+          expect(detectContentError(content)).toBeNull();
+          expect(checkAnalysisContent(content, domain)).toBeNull();
+        }
+      );
+    }
+  );
+});
@@ -0,0 +1,82 @@
+/**
+ * Detection of agent answers that carry an error or a refusal instead of an
+ * analysis, shared by the browser and the edge functions.
+ *
+ * The agent reports failures explicitly with a top-level `error` or `refusal`
+ * string in its JSON content. Older agent versions answer in free text
+ * instead, so plain text content is still matched against known apologies.
+ * Structured content is never phrase-matched: a competitor weakness such as
+ * "Unable to scale" is part of a valid analysis.
+ */
+
+export interface AgentContentError {
+  type: "error" | "refusal";
+  message: string;
+}
+
+// Apologies written by agents that answer in free text instead of JSON
+const FREE_TEXT_ERROR_PHRASES = [
+  "encountered an issue",
+  "i'm sorry",
+  "couldn't analyze",
+  "failed to analyze",
+  "unable to",
+  "error occurred",
+  "invalid domain",
+];
+
+const DEFAULT_ERROR_MESSAGE = "The agent could not analyze this domain";
+
+const readMessage = (value: unknown): string | undefined => {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (value && typeof value === "object" && "message" in value) {
+    return readMessage(value.message);
+  }
+  return undefined;
+};
+
+/**
+ * Detect an error or refusal in the content of an agent answer
+ * @param content - The answer content, structured or free text
+ * @returns The error reported by the agent, or null for a usable answer
+ */
+export const detectContentError = (
+  content: unknown
+): AgentContentError | null => {
+  if (typeof content === "string") {
+    const text = content.trim();
+
+    // JSON encoded as text follows the structured contract
+    if (text.startsWith("{") || text.startsWith("[")) {
+      try {
+        return detectContentError(JSON.parse(text));
+      } catch {
+        // Not JSON after all, check it as free text
+      }
+    }
+
+    const lowerText = text.toLowerCase();
+    return FREE_TEXT_ERROR_PHRASES.some((phrase) => lowerText.includes(phrase))
+      ? { type: "error", message: text }
+      : null;
+  }
+
+  if (!content || typeof content !== "object" || Array.isArray(content)) {
+    return null;
+  }
+
+  const { error, refusal } = content as Record<string, unknown>;
+  if (refusal) {
+    return {
+      type: "refusal",
+      message: readMessage(refusal) ?? DEFAULT_ERROR_MESSAGE,
+    };
+  }
+  if (error) {
+    return {
+      type: "error",
+      message: readMessage(error) ?? DEFAULT_ERROR_MESSAGE,
+    };
+  }
+  return null;
+};
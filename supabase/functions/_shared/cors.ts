@@ -0,0 +1,19 @@
+/**
+ * CORS headers for edge functions invoked from the browser
+ */
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+/**
+ * Build a JSON response with CORS headers
+ * @param body - The response payload
+ * @param status - The HTTP status code
+ */
+export const jsonResponse = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
@@ -0,0 +1,121 @@
+/**
+ * Blocklists of email providers that are not accepted as business emails,
+ * shared by the email gate and the submit-lead edge function.
+ *
+ * Free providers are matched by pattern so their country variants are
+ * covered. Disposable providers are matched by domain, including their
+ * subdomains. To update the disposable list, add domains from the
+ * disposable-email-domains project
+ * (https://github.com/disposable-email-domains/disposable-email-domains)
+ * in alphabetical order; a domain listed here is rejected by both the modal
+ * and the server as soon as both are deployed.
+ */
+
+// Pattern-based free email provider detection
+export const FREE_EMAIL_PATTERNS = [
+  // Gmail variations
+  /^gmail\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^googlemail\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+
+  // Yahoo variations
+  /^yahoo\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^ymail\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^rocketmail\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+
+  // Microsoft/Outlook variations
+  /^hotmail\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^outlook\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^live\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^msn\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+
+  // AOL variations
+  /^aol\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+
+  // Apple variations
+  /^icloud\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^me\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^mac\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+
+  // Other common free providers
+  /^mail\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^protonmail\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^proton\.(me|com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^zoho\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^yandex\.(com|ru|co\.[a-z]{2}|[a-z]{2})$/,
+  /^gmx\.(com|net|de|co\.[a-z]{2}|[a-z]{2})$/,
+  /^inbox\.(com|co\.[a-z]{2}|[a-z]{2})$/,
+  /^fastmail\.(com|fm|co\.[a-z]{2}|[a-z]{2})$/,
+  /^tutanota\.(com|de|co\.[a-z]{2}|[a-z]{2})$/,
+  /^web\.de$/,
+  /^t-online\.de$/,
+  /^laposte\.net$/,
+  /^orange\.fr$/,
+  /^free\.fr$/,
+  /^sfr\.fr$/,
+  /^libero\.it$/,
+  /^mail\.ru$/,
+  /^qq\.com$/,
+  /^163\.com$/,
+  /^126\.com$/,
+];
+
+// Disposable and throwaway email providers
+export const DISPOSABLE_EMAIL_DOMAINS = [
+  "10minutemail.com",
+  "10minutemail.net",
+  "10minutemail.org",
+  "20minutemail.com",
+  "33mail.com",
+  "anonbox.net",
+  "burnermail.io",
+  "discard.email",
+  "dispostable.com",
+  "dropmail.me",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "fakemail.net",
+  "getairmail.com",
+  "getnada.com",
+  "guerrillamail.biz",
+  "guerrillamail.com",
+  "guerrillamail.de",
+  "guerrillamail.info",
+  "guerrillamail.net",
+  "guerrillamail.org",
+  "guerrillamailblock.com",
+  "harakirimail.com",
+  "inboxkitten.com",
+  "incognitomail.org",
+  "jetable.org",
+  "mailcatch.com",
+  "maildrop.cc",
+  "mailinator.com",
+  "mailinator.net",
+  "mailnesia.com",
+  "mailpoof.com",
+  "mailsac.com",
+  "mintemail.com",
+  "mohmal.com",
+  "mytemp.email",
+  "nada.email",
+  "sharklasers.com",
+  "spam4.me",
+  "spambox.us",
+  "spamgourmet.com",
+  "temp-mail.com",
+  "temp-mail.io",
+  "temp-mail.org",
+  "tempail.com",
+  "tempinbox.com",
+  "tempmail.dev",
+  "tempmail.net",
+  "tempmailo.com",
+  "tempr.email",
+  "throwawaymail.com",
+  "trashmail.com",
+  "trashmail.de",
+  "trashmail.net",
+  "yopmail.com",
+  "yopmail.fr",
+  "yopmail.net",
+];
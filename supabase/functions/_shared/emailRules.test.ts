@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { checkBusinessEmail, parseInternalDomains } from "./emailRules.ts";
+
+describe("parseInternalDomains", () => {
+  it("reads a comma-separated list", () => {
+    expect(parseInternalDomains(" Acme.com, ,staff.example.org ")).toEqual([
+      "acme.com",
+      "staff.example.org",
+    ]);
+  });
+
+  it("returns no domains when the setting is missing", () => {
+    expect(parseInternalDomains()).toEqual([]);
+    expect(parseInternalDomains("")).toEqual([]);
+  });
+});
+
+describe("checkBusinessEmail", () => {
+  const internalDomains = parseInternalDomains("acme.com");
+
+  it("accepts staff of an internal domain and its subdomains", () => {
+    expect(checkBusinessEmail("jane@acme.com", internalDomains)).toEqual({
+      isValid: true,
+      isInternal: true,
+    });
+    expect(
+      checkBusinessEmail("jane@eu.ACME.com", internalDomains).isInternal
+    ).toBe(true);
+  });
+
+  it("does not treat lookalike domains as internal", () => {
+    expect(
+      checkBusinessEmail("jane@notacme.com", internalDomains).isInternal
+    ).toBeUndefined();
+    expect(
+      checkBusinessEmail("jane@acme.com.evil.io", internalDomains).isInternal
+    ).toBeUndefined();
+  });
+
+  it("never bypasses the gate without configured internal domains", () => {
+    expect(checkBusinessEmail("jane@acme.com")).toEqual({ isValid: true });
+    expect(checkBusinessEmail("sss")).toEqual({
+      isValid: false,
+      reason: "invalid",
+    });
+  });
+
+  it("still rejects free and malformed emails", () => {
+    expect(checkBusinessEmail("jane@gmail.com", internalDomains)).toEqual({
+      isValid: false,
+      reason: "free",
+    });
+    expect(checkBusinessEmail("jane@", internalDomains).reason).toBe("invalid");
+  });
+});
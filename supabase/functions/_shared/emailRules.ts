@@ -0,0 +1,111 @@
+/**
+ * Business email rules of the email gate, shared by the modal and the
+ * submit-lead edge function so both accept exactly the same emails.
+ *
+ * The mail server (MX) check needs DNS and only runs on the server.
+ */
+import {
+  DISPOSABLE_EMAIL_DOMAINS,
+  FREE_EMAIL_PATTERNS,
+} from "./emailBlocklist.ts";
+
+export type EmailRejectionReason = "invalid" | "free" | "disposable" | "no_mx";
+
+export interface EmailCheck {
+  isValid: boolean;
+  reason?: EmailRejectionReason;
+  // Staff email from a configured internal domain
+  isInternal?: boolean;
+}
+
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const EMAIL_REJECTION_MESSAGES: Record<EmailRejectionReason, string> = {
+  invalid: "Please enter a valid email address.",
+  free: "Please use your company email address (not a free email provider).",
+  disposable:
+    "Please use your company email address (not a disposable email address).",
+  no_mx: "This email domain cannot receive emails. Please check for typos.",
+};
+
+const normalize = (domain: string) => domain.toLowerCase().trim();
+
+// Match a domain and its subdomains
+const matchesDomain = (domain: string, listedDomain: string) =>
+  domain === listedDomain || domain.endsWith(`.${listedDomain}`);
+
+/**
+ * Get the lowercase domain of an email address
+ */
+export const getEmailDomain = (email: string): string =>
+  normalize(email.split("@")[1] || "");
+
+/**
+ * Check if a domain matches any free email provider pattern
+ */
+export const isFreeEmailDomain = (domain: string): boolean => {
+  const normalizedDomain = normalize(domain);
+  return FREE_EMAIL_PATTERNS.some((pattern) => pattern.test(normalizedDomain));
+};
+
+/**
+ * Check if a domain belongs to a disposable email provider
+ */
+export const isDisposableEmailDomain = (domain: string): boolean => {
+  const normalizedDomain = normalize(domain);
+  return DISPOSABLE_EMAIL_DOMAINS.some((listedDomain) =>
+    matchesDomain(normalizedDomain, listedDomain)
+  );
+};
+
+/**
+ * Parse the internal domains configured on the server, comma-separated
+ * @param value - The EMAIL_GATE_INTERNAL_DOMAINS setting
+ * @returns The normalized domains
+ */
+export const parseInternalDomains = (value = ""): string[] =>
+  value.split(",").map(normalize).filter(Boolean);
+
+/**
+ * Check if a domain belongs to an internal domain, or one of its subdomains
+ * @param domain - The email domain
+ * @param internalDomains - The configured internal domains
+ */
+export const isInternalEmailDomain = (
+  domain: string,
+  internalDomains: string[]
+): boolean => {
+  const normalizedDomain = normalize(domain);
+  return internalDomains.some((internalDomain) =>
+    matchesDomain(normalizedDomain, normalize(internalDomain))
+  );
+};
+
+/**
+ * Check an email against the business email rules, without the MX check
+ * @param email - The email entered in the gate
+ * @param internalDomains - Staff domains accepted without further checks
+ * @returns Whether the email is accepted, and why not
+ */
+export const checkBusinessEmail = (
+  email: string,
+  internalDomains: string[] = []
+): EmailCheck => {
+  if (email.trim().length > 254 || !EMAIL_REGEX.test(email.trim())) {
+    return { isValid: false, reason: "invalid" };
+  }
+
+  const domain = getEmailDomain(email.trim());
+
+  if (isInternalEmailDomain(domain, internalDomains)) {
+    return { isValid: true, isInternal: true };
+  }
+  if (isFreeEmailDomain(domain)) {
+    return { isValid: false, reason: "free" };
+  }
+  if (isDisposableEmailDomain(domain)) {
+    return { isValid: false, reason: "disposable" };
+  }
+
+  return { isValid: true };
+};
@@ -0,0 +1,138 @@
+/**
+ * Retry policy per error kind, with exponential backoff and Retry-After support
+ */
+import {
+  TimeoutError,
+  toApiError,
+  type ApiError,
+  type ApiErrorKind,
+} from "./analysisErrors.ts";
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const RETRY_POLICIES: Record<ApiErrorKind, RetryPolicy> = {
+  network: { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 10000 },
+  timeout: { maxRetries: 2, baseDelayMs: 2000, maxDelayMs: 10000 },
+  server: { maxRetries: 3, baseDelayMs: 2000, maxDelayMs: 20000 },
+  rate_limited: { maxRetries: 4, baseDelayMs: 5000, maxDelayMs: 60000 },
+  client: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+  content: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+  unknown_conversation: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+  unknown: { maxRetries: 1, baseDelayMs: 1000, maxDelayMs: 5000 },
+};
+
+/**
+ * Check whether another retry is allowed for an error
+ * @param error - The typed error
+ * @param retries - Retries already made for it
+ */
+export const canRetry = (error: ApiError, retries = 0): boolean =>
+  retries < RETRY_POLICIES[error.kind].maxRetries;
+
+/**
+ * Delay before a retry: the server's Retry-After when given, otherwise
+ * exponential backoff from the policy of the error kind
+ * @param error - The typed error
+ * @param retry - The retry about to be made (1-based)
+ * @returns Delay in milliseconds
+ */
+export const getRetryDelay = (error: ApiError, retry: number): number => {
+  const policy = RETRY_POLICIES[error.kind];
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  return Math.min(
+    policy.baseDelayMs * 2 ** Math.max(0, retry - 1),
+    policy.maxDelayMs
+  );
+};
+
+/**
+ * Wait, rejecting with the abort reason when the signal is aborted
+ * @param ms - Milliseconds to wait
+ * @param signal - Optional signal interrupting the wait
+ */
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, Math.max(0, ms));
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  // Time budget of each attempt
+  timeoutMs?: number;
+  // Error kinds worth retrying, e.g. only those where the request surely had
+  // no effect; defaults to every kind whose policy allows retries
+  retryableKinds?: ApiErrorKind[];
+  onRetry?: (error: ApiError, retry: number, delayMs: number) => void;
+}
+
+/**
+ * Run a request, retrying failures their policy allows
+ * @param request - The request, receiving the signal of the current attempt
+ * @param options - Caller signal, per-attempt timeout and retry callback
+ * @returns The request result; rejects with a typed error, or with the abort
+ * reason when the caller aborts
+ */
+export const withRetry = async <T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs, retryableKinds, onRetry }: RetryOptions = {}
+): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", abort, { once: true });
+    const timer =
+      timeoutMs !== undefined
+        ? setTimeout(
+            () =>
+              controller.abort(
+                new TimeoutError(`Request timed out after ${timeoutMs}ms`)
+              ),
+            timeoutMs
+          )
+        : undefined;
+
+    try {
+      if (signal?.aborted) throw signal.reason;
+      return await request(controller.signal);
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+
+      // Some fetch implementations reject with a plain AbortError
+      const reason: unknown = controller.signal.reason;
+      const apiError = toApiError(
+        reason instanceof TimeoutError ? reason : error
+      );
+      if (
+        !canRetry(apiError, retry) ||
+        (retryableKinds && !retryableKinds.includes(apiError.kind))
+      ) {
+        throw apiError;
+      }
+
+      const delayMs = getRetryDelay(apiError, retry + 1);
+      onRetry?.(apiError, retry + 1, delayMs);
+      await wait(delayMs, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+};
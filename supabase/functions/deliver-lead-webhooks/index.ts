@@ -0,0 +1,196 @@
+/**
+ * Edge function that forwards email-gate leads to the CRM webhook from the
+ * lead_webhook_outbox table. Every lead is enqueued by a database trigger; a
+ * failed delivery is retried with exponential backoff until it succeeds or
+ * runs out of attempts.
+ *
+ * POST {} delivers every due lead once. The results page kicks it after
+ * storing a lead, and it is meant to be scheduled so retries go out (see
+ * README).
+ */
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+
+interface Lead {
+  id: string;
+  email: string;
+  company_domain: string;
+  company_name: string | null;
+  company_size: string | null;
+  page_url: string;
+  user_language: string | null;
+  created_at: string;
+}
+
+interface OutboxEntry {
+  id: string;
+  attempts: number;
+  leads: Lead;
+}
+
+type DeliveryStatus = "pending" | "delivered" | "failed";
+
+// Make.com webhook receiving the leads; deliveries wait until it is set
+const WEBHOOK_URL = Deno.env.get("LEAD_WEBHOOK_URL");
+const MAX_ATTEMPTS = 12;
+// Backoff doubles from one minute up to six hours, about two days in total
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+const LOCK_DURATION_MS = 60000;
+const BATCH_SIZE = 25;
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+);
+
+/**
+ * Claim a due delivery so concurrent runs do not send it twice
+ * @param id - The outbox entry to claim
+ * @returns The claimed entry with its lead, or null if claimed elsewhere
+ */
+const claimDelivery = async (id: string): Promise<OutboxEntry | null> => {
+  const now = new Date();
+  const { data } = await supabase
+    .from("lead_webhook_outbox")
+    .update({
+      locked_until: new Date(now.getTime() + LOCK_DURATION_MS).toISOString(),
+    })
+    .eq("id", id)
+    .eq("status", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select("id, attempts, leads(*)")
+    .maybeSingle();
+
+  return data as OutboxEntry | null;
+};
+
+/**
+ * Payload expected by the CRM scenario
+ */
+const buildPayload = (lead: Lead) => ({
+  email: lead.email,
+  company_name: lead.company_name || lead.company_domain,
+  company_size: lead.company_size || "Unknown",
+  company_domain: lead.company_domain,
+  competitor_analysis_url: lead.page_url,
+  user_language: lead.user_language || "en",
+  created_date: lead.created_at,
+});
+
+/**
+ * Post a lead to the webhook
+ * @returns The error message, or null when the webhook accepted it
+ */
+const postLead = async (url: string, lead: Lead): Promise<string | null> => {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(buildPayload(lead)),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    // Drain the body so the connection can be reused
+    await response.text();
+    return response.ok
+      ? null
+      : `Webhook responded with ${response.status} ${response.statusText}`;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+/**
+ * Deliver a claimed lead and record the outcome on its outbox entry
+ * @returns The delivery status after this attempt
+ */
+const deliverLead = async (
+  url: string,
+  entry: OutboxEntry
+): Promise<DeliveryStatus> => {
+  const attempts = entry.attempts + 1;
+  const error = await postLead(url, entry.leads);
+
+  if (!error) {
+    await supabase
+      .from("lead_webhook_outbox")
+      .update({
+        status: "delivered",
+        attempts,
+        last_error: null,
+        locked_until: null,
+        delivered_at: new Date().toISOString(),
+      })
+      .eq("id", entry.id);
+    return "delivered";
+  }
+
+  const status: DeliveryStatus =
+    attempts >= MAX_ATTEMPTS ? "failed" : "pending";
+  const retryDelay = Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** (attempts - 1),
+    MAX_RETRY_DELAY_MS
+  );
+  await supabase
+    .from("lead_webhook_outbox")
+    .update({
+      status,
+      attempts,
+      last_error: error,
+      locked_until: null,
+      next_attempt_at: new Date(Date.now() + retryDelay).toISOString(),
+    })
+    .eq("id", entry.id);
+
+  if (status === "failed") {
+    console.error(`Giving up on lead ${entry.leads.id}:`, error);
+  }
+  return status;
+};
+
+/**
+ * Deliver every due lead once
+ */
+const sweepDeliveries = async (url: string) => {
+  const { data: entries, error } = await supabase
+    .from("lead_webhook_outbox")
+    .select("id")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  const results = [];
+  for (const { id } of entries ?? []) {
+    const entry = await claimDelivery(id);
+    if (!entry) continue;
+    const status = await deliverLead(url, entry);
+    results.push({ id, status, attempts: entry.attempts + 1 });
+  }
+  return results;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (!WEBHOOK_URL) {
+    // Leads stay in the outbox until a webhook is configured
+    return jsonResponse({ deliveries: [] });
+  }
+
+  try {
+    return jsonResponse({ deliveries: await sweepDeliveries(WEBHOOK_URL) });
+  } catch (error) {
+    console.error("deliver-lead-webhooks failed:", error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500
+    );
+  }
+});
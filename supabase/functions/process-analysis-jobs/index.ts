@@ -0,0 +1,368 @@
+/**
+ * Edge function that owns the analysis lifecycle after an agent conversation
+ * has been started: it polls the analysis provider, stores the result in
+ * competitor_stack and records the outcome on the analysis_jobs row.
+ *
+ * POST { jobId } processes a single job until it finishes or the invocation
+ * budget runs out. POST { jobId, cancel: true, cancelToken } cancels an
+ * unfinished job and its agent conversation; only the browser holding the
+ * job's cancel token or the signed-in requester may do so. POST {} sweeps
+ * every unfinished job once and is meant to be scheduled (see README).
+ */
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAnalysisProvider } from "../_shared/analysisProvider.ts";
+import { toApiError, type ApiErrorKind } from "../_shared/analysisErrors.ts";
+import { canRetry } from "../_shared/retry.ts";
+import { detectContentError } from "../_shared/contentErrors.ts";
+import { checkAnalysisContent } from "../_shared/analysisContent.ts";
+import { hashCancelToken } from "../_shared/cancelToken.ts";
+
+interface AnalysisJob {
+  id: string;
+  company_domain: string;
+  conversation_id: string;
+  user_language: string | null;
+  requested_by: string | null;
+  status: "pending" | "running" | "succeeded" | "failed";
+  attempts: number;
+  // Delay requested by a rate-limited provider before the next poll
+  retryAfterMs?: number;
+}
+
+interface AnalysisAnswer {
+  status?: string;
+  response?: { data?: { content?: unknown } };
+  content?: unknown;
+}
+
+const provider = createAnalysisProvider({
+  provider: Deno.env.get("ANALYSIS_PROVIDER"),
+  backendUrl: Deno.env.get("ANALYSIS_BACKEND_URL"),
+  agentConfigId: Deno.env.get("DUST_AGENT_CONFIG_ID"),
+});
+const POLL_INTERVAL_MS = 10000;
+const MAX_ATTEMPTS = 40;
+// Stay well below the edge function wall clock limit
+const INVOCATION_BUDGET_MS = 120000;
+const CANCELLED_ERROR = "Analysis cancelled";
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+);
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Claim a job for this invocation so concurrent runs do not store it twice
+ * @param jobId - The job to claim
+ * @returns The claimed job, or null if it is finished or claimed elsewhere
+ */
+const claimJob = async (jobId: string): Promise<AnalysisJob | null> => {
+  const now = new Date();
+  const { data } = await supabase
+    .from("analysis_jobs")
+    .update({
+      status: "running",
+      locked_until: new Date(
+        now.getTime() + INVOCATION_BUDGET_MS
+      ).toISOString(),
+    })
+    .eq("id", jobId)
+    .in("status", ["pending", "running"])
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select()
+    .maybeSingle();
+
+  return data;
+};
+
+const releaseJob = (jobId: string) =>
+  supabase
+    .from("analysis_jobs")
+    .update({ locked_until: null })
+    .eq("id", jobId)
+    .eq("status", "running");
+
+const failJob = (
+  jobId: string,
+  attempts: number,
+  error: string,
+  errorKind: ApiErrorKind
+) =>
+  supabase
+    .from("analysis_jobs")
+    .update({
+      status: "failed",
+      attempts,
+      error,
+      error_kind: errorKind,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
+
+/**
+ * Record a poll attempt on a job that is still running
+ * @returns False when the job was cancelled in the meantime
+ */
+const recordAttempt = async (
+  jobId: string,
+  attempts: number,
+  error: string | null
+): Promise<boolean> => {
+  const { data } = await supabase
+    .from("analysis_jobs")
+    .update({ attempts, error })
+    .eq("id", jobId)
+    .eq("status", "running")
+    .select("id")
+    .maybeSingle();
+
+  return !!data;
+};
+
+const getAnswerContent = (answer: AnalysisAnswer): unknown =>
+  answer.response?.data?.content ?? answer.content;
+
+/**
+ * Check whether the agent has finished answering with some content
+ */
+const isAnswerComplete = (answer: AnalysisAnswer): boolean => {
+  if (answer.status !== "succeeded" && answer.status !== "completed") {
+    return false;
+  }
+  const content = getAnswerContent(answer);
+  if (typeof content === "string") return content.trim().length > 0;
+  return !!content && Object.keys(content).length > 0;
+};
+
+/**
+ * Poll the analysis provider once for a job
+ * @returns The job status after this attempt
+ */
+const pollJobOnce = async (
+  job: AnalysisJob
+): Promise<AnalysisJob["status"]> => {
+  const attempts = job.attempts + 1;
+  job.attempts = attempts;
+
+  let answer: AnalysisAnswer;
+  try {
+    answer = (await provider.poll(
+      job.conversation_id,
+      attempts
+    )) as AnalysisAnswer;
+  } catch (error) {
+    const apiError = toApiError(error);
+    job.retryAfterMs = apiError.retryAfterMs;
+    // Client errors and unknown conversations will not fix themselves
+    if (!canRetry(apiError) || attempts >= MAX_ATTEMPTS) {
+      await failJob(job.id, attempts, apiError.message, apiError.kind);
+      return "failed";
+    }
+    return (await recordAttempt(job.id, attempts, apiError.message))
+      ? "running"
+      : "failed";
+  }
+  job.retryAfterMs = undefined;
+
+  if (!isAnswerComplete(answer)) {
+    if (attempts >= MAX_ATTEMPTS) {
+      await failJob(job.id, attempts, "Analysis timed out", "timeout");
+      return "failed";
+    }
+    return (await recordAttempt(job.id, attempts, null)) ? "running" : "failed";
+  }
+
+  // Never store an error or refusal as an analysis
+  const contentError = detectContentError(getAnswerContent(answer));
+  if (contentError) {
+    await failJob(job.id, attempts, contentError.message, "content");
+    return "failed";
+  }
+
+  // Jobs come from browsers, so only store an analysis of the job's domain
+  const contentProblem = checkAnalysisContent(
+    getAnswerContent(answer),
+    job.company_domain
+  );
+  if (contentProblem) {
+    await failJob(job.id, attempts, contentProblem, "content");
+    return "failed";
+  }
+
+  const { data: record, error: insertError } = await supabase
+    .from("competitor_stack")
+    .insert({
+      company_domain: job.company_domain,
+      competitors_data: answer,
+      user_language: job.user_language || "en",
+      requested_by: job.requested_by,
+    })
+    .select("id")
+    .single();
+
+  if (insertError) {
+    await failJob(job.id, attempts, insertError.message, "server");
+    return "failed";
+  }
+
+  await supabase
+    .from("analysis_jobs")
+    .update({
+      status: "succeeded",
+      attempts,
+      error: null,
+      result_id: record.id,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("status", "running");
+  return "succeeded";
+};
+
+/**
+ * Poll a job until it finishes or the invocation budget is spent
+ */
+const processJob = async (jobId: string, deadline: number) => {
+  const job = await claimJob(jobId);
+  if (!job) return null;
+
+  let status: AnalysisJob["status"] = "running";
+  while (status === "running") {
+    status = await pollJobOnce(job);
+    if (status !== "running") break;
+    const interval = Math.max(POLL_INTERVAL_MS, job.retryAfterMs ?? 0);
+    if (Date.now() + interval >= deadline) {
+      // Leave the job for the next scheduled sweep
+      await releaseJob(job.id);
+      break;
+    }
+    await delay(interval);
+  }
+
+  return { id: job.id, status, attempts: job.attempts };
+};
+
+/**
+ * Check that the caller created a job: it holds the cancel token returned to
+ * the creating browser, or is signed in as the user who requested the job
+ * @param jobId - The job to cancel
+ * @param cancelToken - The cancel token sent by the caller, if any
+ * @param req - The request, whose Authorization header carries the user JWT
+ */
+const canCancelJob = async (
+  jobId: string,
+  cancelToken: unknown,
+  req: Request
+): Promise<boolean> => {
+  const { data: job } = await supabase
+    .from("analysis_jobs")
+    .select("requested_by, cancel_token_hash")
+    .eq("id", jobId)
+    .maybeSingle();
+  if (!job) return false;
+
+  if (
+    typeof cancelToken === "string" &&
+    job.cancel_token_hash &&
+    (await hashCancelToken(cancelToken)) === job.cancel_token_hash
+  ) {
+    return true;
+  }
+
+  const jwt = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!job.requested_by || !jwt) return false;
+  // The anon key is a JWT too, but belongs to no user
+  const { data } = await supabase.auth.getUser(jwt);
+  return data.user?.id === job.requested_by;
+};
+
+/**
+ * Cancel an unfinished job and stop its agent conversation
+ */
+const cancelJob = async (jobId: string) => {
+  const { data: job } = await supabase
+    .from("analysis_jobs")
+    .update({
+      status: "failed",
+      error: CANCELLED_ERROR,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .in("status", ["pending", "running"])
+    .select()
+    .maybeSingle();
+
+  if (!job) return null;
+
+  try {
+    await provider.cancel(job.conversation_id);
+  } catch (error) {
+    // The job is cancelled either way; the conversation just keeps running
+    console.warn(
+      `Failed to cancel conversation ${job.conversation_id}:`,
+      toApiError(error).message
+    );
+  }
+
+  return { id: job.id, status: job.status, attempts: job.attempts };
+};
+
+/**
+ * Poll every unfinished job once
+ */
+const sweepJobs = async () => {
+  const { data: jobs, error } = await supabase
+    .from("analysis_jobs")
+    .select("id")
+    .in("status", ["pending", "running"])
+    .order("created_at", { ascending: true })
+    .limit(25);
+
+  if (error) throw error;
+
+  const results = [];
+  for (const { id } of jobs ?? []) {
+    const job = await claimJob(id);
+    if (!job) continue;
+    const status = await pollJobOnce(job);
+    if (status === "running") await releaseJob(job.id);
+    results.push({ id, status, attempts: job.attempts });
+  }
+  return results;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { jobId, cancel, cancelToken } = await req.json().catch(() => ({}));
+
+    if (jobId && cancel) {
+      if (!(await canCancelJob(jobId, cancelToken, req))) {
+        return jsonResponse({ error: "Not allowed to cancel this job" }, 403);
+      }
+      return jsonResponse({ job: await cancelJob(jobId) });
+    }
+
+    if (jobId) {
+      const result = await processJob(jobId, Date.now() + INVOCATION_BUDGET_MS);
+      return jsonResponse({ job: result });
+    }
+
+    return jsonResponse({ jobs: await sweepJobs() });
+  } catch (error) {
+    console.error("process-analysis-jobs failed:", error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500
+    );
+  }
+});
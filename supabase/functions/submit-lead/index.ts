@@ -0,0 +1,128 @@
+/**
+ * Edge function that stores the leads of the email gate. Browsers cannot
+ * insert leads themselves, so every lead, and the webhook delivery enqueued
+ * for it, passes the same business email rules as the modal plus a check
+ * that the email domain has mail servers.
+ *
+ * POST { email, companyDomain, companyName?, companySize?, pageUrl,
+ * userLanguage? } answers { lead: { isInternal } }, or 422 with the
+ * rejection reason. Set MX_LOOKUP=stub to skip DNS lookups when running
+ * offline.
+ */
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  checkBusinessEmail,
+  EMAIL_REJECTION_MESSAGES,
+  getEmailDomain,
+  parseInternalDomains,
+  type EmailRejectionReason,
+} from "../_shared/emailRules.ts";
+
+interface LeadRequest {
+  email?: unknown;
+  companyDomain?: unknown;
+  companyName?: unknown;
+  companySize?: unknown;
+  pageUrl?: unknown;
+  userLanguage?: unknown;
+}
+
+// Staff email domains accepted without further checks, comma-separated
+const INTERNAL_DOMAINS = parseInternalDomains(
+  Deno.env.get("EMAIL_GATE_INTERNAL_DOMAINS")
+);
+const MX_LOOKUP = Deno.env.get("MX_LOOKUP") ?? "dns";
+
+// Same constraints as the normalized values stored by the app
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+const LANGUAGE_PATTERN = /^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})?$/;
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+);
+
+const optionalText = (value: unknown, maxLength: number) =>
+  typeof value === "string" && value.trim()
+    ? value.trim().slice(0, maxLength)
+    : null;
+
+/**
+ * Check that an email domain has mail servers
+ * @returns False only when DNS answers that the domain has no MX records
+ */
+const hasMailServers = async (domain: string): Promise<boolean> => {
+  if (MX_LOOKUP === "stub") return true;
+
+  try {
+    const records = await Deno.resolveDns(domain, "MX");
+    return records.length > 0;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return false;
+    // Do not turn visitors away because of a failing resolver
+    console.warn(`MX lookup failed for ${domain}:`, error);
+    return true;
+  }
+};
+
+const rejectEmail = (reason: EmailRejectionReason) =>
+  jsonResponse({ error: EMAIL_REJECTION_MESSAGES[reason], reason }, 422);
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const body: LeadRequest = await req.json().catch(() => ({}));
+    const email = typeof body.email === "string" ? body.email.trim() : "";
+    const companyDomain = optionalText(body.companyDomain, 253);
+    const pageUrl = optionalText(body.pageUrl, 2048);
+    const userLanguage = optionalText(body.userLanguage, 16) ?? "en";
+
+    if (
+      !companyDomain ||
+      !DOMAIN_PATTERN.test(companyDomain) ||
+      !pageUrl ||
+      !/^https?:\/\//.test(pageUrl) ||
+      !LANGUAGE_PATTERN.test(userLanguage)
+    ) {
+      return jsonResponse({ error: "Invalid lead" }, 400);
+    }
+
+    const check = checkBusinessEmail(email, INTERNAL_DOMAINS);
+    if (!check.isValid) return rejectEmail(check.reason!);
+
+    const isInternal = !!check.isInternal;
+    if (!isInternal && !(await hasMailServers(getEmailDomain(email)))) {
+      return rejectEmail("no_mx");
+    }
+
+    if (isInternal) {
+      console.info(
+        `Email gate bypassed by an internal user from ${getEmailDomain(email)}`
+      );
+    }
+
+    const { error } = await supabase.from("leads").insert({
+      email,
+      company_domain: companyDomain,
+      company_name: optionalText(body.companyName, 200),
+      company_size: optionalText(body.companySize, 100),
+      page_url: pageUrl,
+      user_language: userLanguage,
+      is_internal: isInternal,
+    });
+
+    if (error) throw error;
+
+    return jsonResponse({ lead: { isInternal } });
+  } catch (error) {
+    console.error("submit-lead failed:", error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500
+    );
+  }
+});
@@ -0,0 +1,56 @@
+-- Create analysis_jobs table
+-- Tracks each Dust conversation until its result is stored in competitor_stack,
+-- so analyses complete even when the browser tab that started them is closed
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_domain TEXT NOT NULL,
+    conversation_id TEXT NOT NULL UNIQUE,
+    user_language TEXT,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    result_id UUID REFERENCES competitor_stack(id) ON DELETE SET NULL,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create index on company_domain for looking up the active job of a domain
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_company_domain ON analysis_jobs(company_domain, created_at DESC);
+
+-- Create partial index for the worker sweep over unfinished jobs
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_unfinished ON analysis_jobs(created_at)
+    WHERE status IN ('pending', 'running');
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION set_analysis_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER analysis_jobs_updated_at
+    BEFORE UPDATE ON analysis_jobs
+    FOR EACH ROW EXECUTE FUNCTION set_analysis_jobs_updated_at();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Browsers can read job state
+CREATE POLICY "Allow reading analysis jobs" ON analysis_jobs
+    FOR SELECT USING (true);
+
+-- Browsers can only enqueue new jobs; the process-analysis-jobs function
+-- updates them with the service role, which bypasses RLS
+CREATE POLICY "Allow enqueueing analysis jobs" ON analysis_jobs
+    FOR INSERT WITH CHECK (
+        status = 'pending'
+        AND attempts = 0
+        AND error IS NULL
+        AND result_id IS NULL
+        AND locked_until IS NULL
+    );
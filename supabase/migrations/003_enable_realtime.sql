@@ -0,0 +1,4 @@
+-- Publish row changes to Supabase Realtime so the results page can follow an
+-- analysis without polling
+ALTER PUBLICATION supabase_realtime ADD TABLE competitor_stack;
+ALTER PUBLICATION supabase_realtime ADD TABLE analysis_jobs;
@@ -0,0 +1,26 @@
+-- Record why a job failed so clients can branch on the error kind instead of
+-- parsing the error message
+ALTER TABLE analysis_jobs
+    ADD COLUMN IF NOT EXISTS error_kind TEXT
+        CHECK (error_kind IN (
+            'network',
+            'timeout',
+            'client',
+            'server',
+            'rate_limited',
+            'content',
+            'unknown_conversation',
+            'unknown'
+        ));
+
+-- Browsers still may only enqueue pristine jobs
+DROP POLICY IF EXISTS "Allow enqueueing analysis jobs" ON analysis_jobs;
+CREATE POLICY "Allow enqueueing analysis jobs" ON analysis_jobs
+    FOR INSERT WITH CHECK (
+        status = 'pending'
+        AND attempts = 0
+        AND error IS NULL
+        AND error_kind IS NULL
+        AND result_id IS NULL
+        AND locked_until IS NULL
+    );
@@ -0,0 +1,121 @@
+-- Create analysis_shares table
+-- Share links to a single stored analysis. Links expire, can be revoked by
+-- whoever created them and count how often they were opened
+CREATE TABLE IF NOT EXISTS analysis_shares (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- Secret put in the share URL
+    token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+    -- Secret kept by the creator to read statistics and revoke the link
+    manage_token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+    analysis_id UUID NOT NULL REFERENCES competitor_stack(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '180 days',
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    view_count INTEGER NOT NULL DEFAULT 0,
+    last_viewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index on analysis_id for the shares of an analysis
+CREATE INDEX IF NOT EXISTS idx_analysis_shares_analysis_id ON analysis_shares(analysis_id);
+
+-- Enable Row Level Security (RLS) without any policy: browsers only reach
+-- shares through the functions below, so a share can be read by whoever holds
+-- one of its tokens and nobody can list them
+ALTER TABLE analysis_shares ENABLE ROW LEVEL SECURITY;
+
+-- Create a share link for a stored analysis
+CREATE OR REPLACE FUNCTION create_analysis_share(
+    share_analysis_id UUID,
+    ttl_days INTEGER DEFAULT 180
+)
+RETURNS analysis_shares
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    share analysis_shares;
+BEGIN
+    IF ttl_days IS NULL OR ttl_days < 1 OR ttl_days > 180 THEN
+        RAISE EXCEPTION 'ttl_days must be between 1 and 180';
+    END IF;
+
+    INSERT INTO analysis_shares (analysis_id, expires_at)
+    VALUES (share_analysis_id, NOW() + make_interval(days => ttl_days))
+    RETURNING * INTO share;
+
+    RETURN share;
+END;
+$$;
+
+-- Open a share link: returns the shared analysis and counts the view, or
+-- nothing when the link is unknown, expired or revoked
+CREATE OR REPLACE FUNCTION open_analysis_share(share_token UUID)
+RETURNS TABLE (
+    id UUID,
+    company_domain TEXT,
+    competitors_data JSONB,
+    created_at TIMESTAMP WITH TIME ZONE,
+    user_language TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    view_count INTEGER
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH opened AS (
+        UPDATE analysis_shares AS s
+        SET view_count = s.view_count + 1,
+            last_viewed_at = NOW()
+        WHERE s.token = share_token
+            AND s.revoked_at IS NULL
+            AND s.expires_at > NOW()
+        RETURNING s.analysis_id, s.expires_at, s.view_count
+    )
+    SELECT c.id, c.company_domain, c.competitors_data, c.created_at,
+        c.user_language, o.expires_at, o.view_count
+    FROM opened AS o
+    JOIN competitor_stack AS c ON c.id = o.analysis_id;
+$$;
+
+-- Read a share link, including its statistics, as its creator
+CREATE OR REPLACE FUNCTION get_analysis_share(share_manage_token UUID)
+RETURNS SETOF analysis_shares
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT * FROM analysis_shares WHERE manage_token = share_manage_token;
+$$;
+
+-- Revoke a share link as its creator
+CREATE OR REPLACE FUNCTION revoke_analysis_share(share_manage_token UUID)
+RETURNS SETOF analysis_shares
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE analysis_shares
+    SET revoked_at = COALESCE(revoked_at, NOW())
+    WHERE manage_token = share_manage_token
+    RETURNING *;
+$$;
+
+-- Replace the catch-all policy on competitor_stack with one policy per
+-- operation. Reads stay public because the results page looks analyses up by
+-- domain; shared links never rely on them and go through the functions above
+DROP POLICY IF EXISTS "Allow all operations on competitor_stack" ON competitor_stack;
+
+CREATE POLICY "Allow reading competitor analyses" ON competitor_stack
+    FOR SELECT USING (true);
+
+CREATE POLICY "Allow storing competitor analyses" ON competitor_stack
+    FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow updating competitor analyses" ON competitor_stack
+    FOR UPDATE USING (true);
+
+CREATE POLICY "Allow deleting competitor analyses" ON competitor_stack
+    FOR DELETE USING (true);
@@ -0,0 +1,23 @@
+-- Tighten the competitor_stack policies: browsers (anon key) may read and
+-- store analyses, but only the service role, which bypasses RLS, may change
+-- or remove them
+DROP POLICY IF EXISTS "Allow updating competitor analyses" ON competitor_stack;
+DROP POLICY IF EXISTS "Allow deleting competitor analyses" ON competitor_stack;
+
+-- Only accept well-formed analyses stored just now
+DROP POLICY IF EXISTS "Allow storing competitor analyses" ON competitor_stack;
+CREATE POLICY "Allow storing competitor analyses" ON competitor_stack
+    FOR INSERT WITH CHECK (
+        -- Normalized domain, as produced by normalizeDomain
+        char_length(company_domain) <= 253
+        AND company_domain ~ '^[a-z0-9-]+(\.[a-z0-9-]+)+$'
+        -- The analysis-answer envelope, at most 1 MB
+        AND jsonb_typeof(competitors_data) = 'object'
+        AND octet_length(competitors_data::text) <= 1000000
+        AND (
+            user_language IS NULL
+            OR user_language ~ '^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})?$'
+        )
+        -- Versions are ordered by created_at, so it cannot be backdated
+        AND created_at BETWEEN NOW() - INTERVAL '5 minutes' AND NOW() + INTERVAL '1 minute'
+    );
@@ -0,0 +1,200 @@
+-- Create workspaces
+-- A workspace is a team saving the competitor domains it tracks. Members
+-- sign in with Supabase Auth (magic links)
+CREATE TABLE IF NOT EXISTS workspaces (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+    created_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS workspace_domains (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    company_domain TEXT NOT NULL CHECK (company_domain ~ '^[a-z0-9-]+(\.[a-z0-9-]+)+$'),
+    added_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (workspace_id, company_domain)
+);
+
+-- Create index on user_id for listing the workspaces of a user
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
+-- Link analyses to the signed-in user who requested them
+ALTER TABLE competitor_stack
+    ADD COLUMN IF NOT EXISTS requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE analysis_jobs
+    ADD COLUMN IF NOT EXISTS requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Check membership without going through the RLS of workspace_members, which
+-- would recurse into itself
+CREATE OR REPLACE FUNCTION is_workspace_member(target_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM workspace_members
+        WHERE workspace_id = target_workspace_id
+            AND user_id = auth.uid()
+    );
+$$;
+
+-- Create a workspace owned by the signed-in user
+CREATE OR REPLACE FUNCTION create_workspace(workspace_name TEXT)
+RETURNS workspaces
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    workspace workspaces;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to create a workspace';
+    END IF;
+
+    INSERT INTO workspaces (name, created_by)
+    VALUES (btrim(workspace_name), auth.uid())
+    RETURNING * INTO workspace;
+
+    INSERT INTO workspace_members (workspace_id, user_id, role)
+    VALUES (workspace.id, auth.uid(), 'owner');
+
+    RETURN workspace;
+END;
+$$;
+
+-- Add a teammate who has signed in at least once to a workspace you own
+CREATE OR REPLACE FUNCTION add_workspace_member(
+    target_workspace_id UUID,
+    member_email TEXT
+)
+RETURNS workspace_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    member_id UUID;
+    member workspace_members;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM workspace_members
+        WHERE workspace_id = target_workspace_id
+            AND user_id = auth.uid()
+            AND role = 'owner'
+    ) THEN
+        RAISE EXCEPTION 'Only workspace owners can add members';
+    END IF;
+
+    SELECT id INTO member_id
+    FROM auth.users
+    WHERE lower(email) = lower(btrim(member_email));
+
+    IF member_id IS NULL THEN
+        RAISE EXCEPTION 'No account uses this email yet';
+    END IF;
+
+    INSERT INTO workspace_members (workspace_id, user_id)
+    VALUES (target_workspace_id, member_id)
+    ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = workspace_members.role
+    RETURNING * INTO member;
+
+    RETURN member;
+END;
+$$;
+
+-- Enable Row Level Security (RLS); workspaces and memberships are created
+-- through the functions above
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_domains ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their workspaces" ON workspaces
+    FOR SELECT TO authenticated USING (is_workspace_member(id));
+
+CREATE POLICY "Members can rename their workspaces" ON workspaces
+    FOR UPDATE TO authenticated USING (is_workspace_member(id));
+
+CREATE POLICY "Members can read the members of their workspaces" ON workspace_members
+    FOR SELECT TO authenticated USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can leave workspaces" ON workspace_members
+    FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+CREATE POLICY "Members can read tracked domains" ON workspace_domains
+    FOR SELECT TO authenticated USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can track domains" ON workspace_domains
+    FOR INSERT TO authenticated WITH CHECK (
+        is_workspace_member(workspace_id) AND added_by = auth.uid()
+    );
+
+CREATE POLICY "Members can stop tracking domains" ON workspace_domains
+    FOR DELETE TO authenticated USING (is_workspace_member(workspace_id));
+
+-- Nobody can attribute an analysis or a job to someone else
+DROP POLICY IF EXISTS "Allow storing competitor analyses" ON competitor_stack;
+CREATE POLICY "Allow storing competitor analyses" ON competitor_stack
+    FOR INSERT WITH CHECK (
+        char_length(company_domain) <= 253
+        AND company_domain ~ '^[a-z0-9-]+(\.[a-z0-9-]+)+$'
+        AND jsonb_typeof(competitors_data) = 'object'
+        AND octet_length(competitors_data::text) <= 1000000
+        AND (
+            user_language IS NULL
+            OR user_language ~ '^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})?$'
+        )
+        AND created_at BETWEEN NOW() - INTERVAL '5 minutes' AND NOW() + INTERVAL '1 minute'
+        AND (requested_by IS NULL OR requested_by = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Allow enqueueing analysis jobs" ON analysis_jobs;
+CREATE POLICY "Allow enqueueing analysis jobs" ON analysis_jobs
+    FOR INSERT WITH CHECK (
+        status = 'pending'
+        AND attempts = 0
+        AND error IS NULL
+        AND error_kind IS NULL
+        AND result_id IS NULL
+        AND locked_until IS NULL
+        AND (requested_by IS NULL OR requested_by = auth.uid())
+    );
+
+-- Latest stored analysis of every domain tracked by a workspace, for the
+-- dashboard. Runs with the caller's rights, so only members see anything
+CREATE OR REPLACE FUNCTION list_workspace_analyses(target_workspace_id UUID)
+RETURNS TABLE (
+    company_domain TEXT,
+    tracked_at TIMESTAMP WITH TIME ZONE,
+    analysis_id UUID,
+    analyzed_at TIMESTAMP WITH TIME ZONE,
+    requested_by UUID
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT d.company_domain, d.created_at, latest.id, latest.created_at,
+        latest.requested_by
+    FROM workspace_domains AS d
+    LEFT JOIN LATERAL (
+        SELECT c.id, c.created_at, c.requested_by
+        FROM competitor_stack AS c
+        WHERE c.company_domain = d.company_domain
+        ORDER BY c.created_at DESC
+        LIMIT 1
+    ) AS latest ON true
+    WHERE d.workspace_id = target_workspace_id
+    ORDER BY d.company_domain;
+$$;
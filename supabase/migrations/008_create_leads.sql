@@ -0,0 +1,77 @@
+-- Create leads table
+-- Stores every visitor who passes the email gate on the results page
+CREATE TABLE IF NOT EXISTS leads (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    email TEXT NOT NULL,
+    company_domain TEXT NOT NULL,
+    company_name TEXT,
+    company_size TEXT,
+    page_url TEXT NOT NULL,
+    user_language TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index on company_domain for looking up the leads of an analysis
+CREATE INDEX IF NOT EXISTS idx_leads_company_domain ON leads(company_domain, created_at DESC);
+
+-- Create lead_webhook_outbox table
+-- One delivery per lead to the CRM webhook, retried with backoff by the
+-- deliver-lead-webhooks function until it succeeds
+CREATE TABLE IF NOT EXISTS lead_webhook_outbox (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    lead_id UUID NOT NULL UNIQUE REFERENCES leads(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'delivered', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_until TIMESTAMP WITH TIME ZONE,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create partial index for the delivery sweep over due deliveries
+CREATE INDEX IF NOT EXISTS idx_lead_webhook_outbox_due ON lead_webhook_outbox(next_attempt_at)
+    WHERE status = 'pending';
+
+-- Enqueue the webhook delivery in the same transaction as the lead, so a lead
+-- is never stored without one
+CREATE OR REPLACE FUNCTION enqueue_lead_webhook()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO lead_webhook_outbox (lead_id) VALUES (NEW.id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER leads_enqueue_webhook
+    AFTER INSERT ON leads
+    FOR EACH ROW EXECUTE FUNCTION enqueue_lead_webhook();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_webhook_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Browsers can submit well-formed leads but never read them back; the outbox
+-- has no policies and is only used by the service role
+CREATE POLICY "Allow submitting leads" ON leads
+    FOR INSERT WITH CHECK (
+        char_length(email) <= 254
+        AND email ~ '^[^\s@]+@[^\s@]+\.[^\s@]+$'
+        -- Normalized domain, as produced by normalizeDomain
+        AND char_length(company_domain) <= 253
+        AND company_domain ~ '^[a-z0-9-]+(\.[a-z0-9-]+)+$'
+        AND (company_name IS NULL OR char_length(company_name) <= 200)
+        AND (company_size IS NULL OR char_length(company_size) <= 100)
+        AND char_length(page_url) <= 2048
+        AND page_url ~ '^https?://'
+        AND (
+            user_language IS NULL
+            OR user_language ~ '^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})?$'
+        )
+        AND created_at BETWEEN NOW() - INTERVAL '5 minutes' AND NOW() + INTERVAL '1 minute'
+    );
@@ -0,0 +1,18 @@
+-- Flag leads from internal staff who passed the email gate through the
+-- configured allowlist. They are kept as a log of bypass use but never sent
+-- to the CRM webhook.
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS is_internal BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION enqueue_lead_webhook()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT NEW.is_internal THEN
+        INSERT INTO lead_webhook_outbox (lead_id) VALUES (NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$;
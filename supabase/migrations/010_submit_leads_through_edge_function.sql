@@ -0,0 +1,4 @@
+-- Leads are now checked and stored by the submit-lead edge function with the
+-- service role, which bypasses RLS. Browsers can no longer insert leads
+-- directly, so the business email rules cannot be skipped.
+DROP POLICY IF EXISTS "Allow submitting leads" ON leads;
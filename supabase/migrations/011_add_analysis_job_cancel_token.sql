@@ -0,0 +1,19 @@
+-- Only the browser that enqueued a job, or its signed-in requester, may cancel
+-- it. The browser keeps a random cancel token and stores its SHA-256 hash,
+-- since analysis jobs are publicly readable; the process-analysis-jobs
+-- function compares the hash before cancelling
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS cancel_token_hash TEXT
+    CHECK (cancel_token_hash IS NULL OR cancel_token_hash ~ '^[0-9a-f]{64}$');
+
+DROP POLICY IF EXISTS "Allow enqueueing analysis jobs" ON analysis_jobs;
+CREATE POLICY "Allow enqueueing analysis jobs" ON analysis_jobs
+    FOR INSERT WITH CHECK (
+        status = 'pending'
+        AND attempts = 0
+        AND error IS NULL
+        AND error_kind IS NULL
+        AND result_id IS NULL
+        AND locked_until IS NULL
+        AND cancel_token_hash IS NOT NULL
+        AND (requested_by IS NULL OR requested_by = auth.uid())
+    );
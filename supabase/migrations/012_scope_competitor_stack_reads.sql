@@ -0,0 +1,101 @@
+-- Browsers can no longer list competitor_stack. They read analyses through the
+-- functions below, which only return the analyses of the domain they are
+-- given, as the results, history and batch pages do
+DROP POLICY IF EXISTS "Allow reading competitor analyses" ON competitor_stack;
+
+-- Realtime only delivers rows the subscriber may read; the results page
+-- follows the analysis_jobs row instead
+ALTER PUBLICATION supabase_realtime DROP TABLE competitor_stack;
+
+-- Latest stored analysis of a domain, optionally only if stored after a time
+CREATE OR REPLACE FUNCTION get_latest_competitor_analysis(
+    target_domain TEXT,
+    created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS SETOF competitor_stack
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT * FROM competitor_stack AS c
+    WHERE c.company_domain = target_domain
+        AND (created_after IS NULL OR c.created_at >= created_after)
+    ORDER BY c.created_at DESC
+    LIMIT 1;
+$$;
+
+-- Stored analyses picked by ID, e.g. a version or the results of a batch,
+-- among the analyses of the given domains
+CREATE OR REPLACE FUNCTION get_competitor_analyses(
+    target_domains TEXT[],
+    analysis_ids UUID[]
+)
+RETURNS SETOF competitor_stack
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT * FROM competitor_stack AS c
+    WHERE c.company_domain = ANY(target_domains)
+        AND c.id = ANY(analysis_ids);
+$$;
+
+-- One page of the analyses of a domain, newest first, without their payload.
+-- Every row carries the total number of analyses of the domain
+CREATE OR REPLACE FUNCTION list_competitor_analyses(
+    target_domain TEXT,
+    page_offset INTEGER DEFAULT 0,
+    page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    id UUID,
+    company_domain TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    user_language TEXT,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT c.id, c.company_domain, c.created_at, c.user_language,
+        COUNT(*) OVER ()
+    FROM competitor_stack AS c
+    WHERE c.company_domain = target_domain
+    ORDER BY c.created_at DESC
+    OFFSET GREATEST(page_offset, 0)
+    LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+-- The dashboard can no longer read competitor_stack with the caller's rights,
+-- so check the membership explicitly
+CREATE OR REPLACE FUNCTION list_workspace_analyses(target_workspace_id UUID)
+RETURNS TABLE (
+    company_domain TEXT,
+    tracked_at TIMESTAMP WITH TIME ZONE,
+    analysis_id UUID,
+    analyzed_at TIMESTAMP WITH TIME ZONE,
+    requested_by UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT d.company_domain, d.created_at, latest.id, latest.created_at,
+        latest.requested_by
+    FROM workspace_domains AS d
+    LEFT JOIN LATERAL (
+        SELECT c.id, c.created_at, c.requested_by
+        FROM competitor_stack AS c
+        WHERE c.company_domain = d.company_domain
+        ORDER BY c.created_at DESC
+        LIMIT 1
+    ) AS latest ON true
+    WHERE d.workspace_id = target_workspace_id
+        AND is_workspace_member(target_workspace_id)
+    ORDER BY d.company_domain;
+$$;
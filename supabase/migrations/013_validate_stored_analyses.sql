@@ -0,0 +1,32 @@
+-- The process-analysis-jobs function stores analyses with the service role,
+-- which bypasses the insert policy of competitor_stack. Enforce its shape
+-- rules as constraints too, so they hold for every writer. NOT VALID keeps
+-- rows stored before these rules untouched
+ALTER TABLE competitor_stack
+    ADD CONSTRAINT competitor_stack_company_domain_format CHECK (
+        char_length(company_domain) <= 253
+        AND company_domain ~ '^[a-z0-9-]+(\.[a-z0-9-]+)+$'
+    ) NOT VALID,
+    ADD CONSTRAINT competitor_stack_competitors_data_format CHECK (
+        jsonb_typeof(competitors_data) = 'object'
+        AND octet_length(competitors_data::text) <= 1000000
+    ) NOT VALID,
+    ADD CONSTRAINT competitor_stack_user_language_format CHECK (
+        user_language IS NULL
+        OR user_language ~ '^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})?$'
+    ) NOT VALID;
+
+-- Browsers enqueue jobs, so only accept jobs the worker can store: a
+-- normalized domain, a provider conversation ID and a language code
+ALTER TABLE analysis_jobs
+    ADD CONSTRAINT analysis_jobs_company_domain_format CHECK (
+        char_length(company_domain) <= 253
+        AND company_domain ~ '^[a-z0-9-]+(\.[a-z0-9-]+)+$'
+    ) NOT VALID,
+    ADD CONSTRAINT analysis_jobs_conversation_id_format CHECK (
+        conversation_id ~ '^[A-Za-z0-9_-]{8,128}$'
+    ) NOT VALID,
+    ADD CONSTRAINT analysis_jobs_user_language_format CHECK (
+        user_language IS NULL
+        OR user_language ~ '^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})?$'
+    ) NOT VALID;
@@ -0,0 +1,191 @@
+-- Stored analyses are only readable by whoever requested them: the signed-in
+-- requester and the members of the requester's workspaces, or the browser
+-- holding the cancel token of the job that stored the analysis. Everyone else
+-- needs a share link (see open_analysis_share in migration 005)
+
+-- Whether the caller may read a stored analysis. Browsers pass the cancel
+-- tokens they hold; only their SHA-256 hashes are stored with the jobs, which
+-- anyone can read
+CREATE OR REPLACE FUNCTION can_read_competitor_analysis(
+    target_analysis_id UUID,
+    target_requested_by UUID,
+    cancel_tokens TEXT[]
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT (
+        auth.uid() IS NOT NULL
+        AND target_requested_by IS NOT NULL
+        AND (
+            target_requested_by = auth.uid()
+            OR EXISTS (
+                SELECT 1
+                FROM workspace_members AS requester
+                JOIN workspace_members AS caller
+                    ON caller.workspace_id = requester.workspace_id
+                WHERE requester.user_id = target_requested_by
+                    AND caller.user_id = auth.uid()
+            )
+        )
+    )
+    OR EXISTS (
+        SELECT 1 FROM analysis_jobs AS j
+        WHERE j.result_id = target_analysis_id
+            AND j.cancel_token_hash IN (
+                SELECT encode(sha256(convert_to(token, 'UTF8')), 'hex')
+                FROM unnest(COALESCE(cancel_tokens, '{}')) AS token
+            )
+    );
+$$;
+
+-- Only the functions below check access
+REVOKE EXECUTE ON FUNCTION can_read_competitor_analysis(UUID, UUID, TEXT[])
+    FROM PUBLIC, anon, authenticated;
+
+-- The functions of migration 012 returned every analysis of a domain; the
+-- new ones take the caller's cancel tokens
+DROP FUNCTION IF EXISTS get_latest_competitor_analysis(TEXT, TIMESTAMP WITH TIME ZONE);
+DROP FUNCTION IF EXISTS get_competitor_analyses(TEXT[], UUID[]);
+DROP FUNCTION IF EXISTS list_competitor_analyses(TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS create_analysis_share(UUID, INTEGER);
+
+-- Latest readable analysis of a domain, optionally only if stored after a time
+CREATE OR REPLACE FUNCTION get_latest_competitor_analysis(
+    target_domain TEXT,
+    created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    cancel_tokens TEXT[] DEFAULT '{}'
+)
+RETURNS SETOF competitor_stack
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT * FROM competitor_stack AS c
+    WHERE c.company_domain = target_domain
+        AND (created_after IS NULL OR c.created_at >= created_after)
+        AND can_read_competitor_analysis(c.id, c.requested_by, cancel_tokens)
+    ORDER BY c.created_at DESC
+    LIMIT 1;
+$$;
+
+-- Readable analyses picked by ID, e.g. a version or the results of a batch,
+-- among the analyses of the given domains
+CREATE OR REPLACE FUNCTION get_competitor_analyses(
+    target_domains TEXT[],
+    analysis_ids UUID[],
+    cancel_tokens TEXT[] DEFAULT '{}'
+)
+RETURNS SETOF competitor_stack
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT * FROM competitor_stack AS c
+    WHERE c.company_domain = ANY(target_domains)
+        AND c.id = ANY(analysis_ids)
+        AND can_read_competitor_analysis(c.id, c.requested_by, cancel_tokens);
+$$;
+
+-- One page of the readable analyses of a domain, newest first, without their
+-- payload. Every row carries the total number of readable analyses
+CREATE OR REPLACE FUNCTION list_competitor_analyses(
+    target_domain TEXT,
+    page_offset INTEGER DEFAULT 0,
+    page_size INTEGER DEFAULT 20,
+    cancel_tokens TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (
+    id UUID,
+    company_domain TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    user_language TEXT,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT c.id, c.company_domain, c.created_at, c.user_language,
+        COUNT(*) OVER ()
+    FROM competitor_stack AS c
+    WHERE c.company_domain = target_domain
+        AND can_read_competitor_analysis(c.id, c.requested_by, cancel_tokens)
+    ORDER BY c.created_at DESC
+    OFFSET GREATEST(page_offset, 0)
+    LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+-- Latest analysis of every tracked domain requested by a member of the
+-- workspace, so members can open every analysis the dashboard lists
+CREATE OR REPLACE FUNCTION list_workspace_analyses(target_workspace_id UUID)
+RETURNS TABLE (
+    company_domain TEXT,
+    tracked_at TIMESTAMP WITH TIME ZONE,
+    analysis_id UUID,
+    analyzed_at TIMESTAMP WITH TIME ZONE,
+    requested_by UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT d.company_domain, d.created_at, latest.id, latest.created_at,
+        latest.requested_by
+    FROM workspace_domains AS d
+    LEFT JOIN LATERAL (
+        SELECT c.id, c.created_at, c.requested_by
+        FROM competitor_stack AS c
+        JOIN workspace_members AS m
+            ON m.workspace_id = d.workspace_id
+            AND m.user_id = c.requested_by
+        WHERE c.company_domain = d.company_domain
+        ORDER BY c.created_at DESC
+        LIMIT 1
+    ) AS latest ON true
+    WHERE d.workspace_id = target_workspace_id
+        AND is_workspace_member(target_workspace_id)
+    ORDER BY d.company_domain;
+$$;
+
+-- Create a share link for an analysis the caller may read
+CREATE OR REPLACE FUNCTION create_analysis_share(
+    share_analysis_id UUID,
+    ttl_days INTEGER DEFAULT 180,
+    cancel_tokens TEXT[] DEFAULT '{}'
+)
+RETURNS analysis_shares
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    share analysis_shares;
+BEGIN
+    IF ttl_days IS NULL OR ttl_days < 1 OR ttl_days > 180 THEN
+        RAISE EXCEPTION 'ttl_days must be between 1 and 180';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM competitor_stack AS c
+        WHERE c.id = share_analysis_id
+            AND can_read_competitor_analysis(c.id, c.requested_by, cancel_tokens)
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to share this analysis'
+            USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO analysis_shares (analysis_id, expires_at)
+    VALUES (share_analysis_id, NOW() + make_interval(days => ttl_days))
+    RETURNING * INTO share;
+
+    RETURN share;
+END;
+$$;
@@ -0,0 +1,98 @@
+/**
+ * Captures stored agent answers that the phrase matcher used before
+ * structured content errors would have flagged as failed, into the fixtures
+ * of supabase/functions/_shared/contentErrors.test.ts.
+ *
+ * Every competitor_stack row holds the answer of a real agent conversation.
+ * Rows whose content contains one of the old error phrases, but that the
+ * current detector accepts, are the false positives the tests guard against.
+ *
+ * deno run --allow-env --allow-net --allow-write
+ *   supabase/scripts/capture-false-positives.ts [maxAnswers]
+ *
+ * Needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, since browsers cannot
+ * list analyses.
+ */
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { detectContentError } from "../functions/_shared/contentErrors.ts";
+
+interface StoredAnswer {
+  id: string;
+  company_domain: string;
+  competitors_data: {
+    content?: unknown;
+    response?: { data?: { content?: unknown } };
+  };
+}
+
+// Phrases the browser matched anywhere in the answer content, JSON included
+const LEGACY_ERROR_PHRASES = [
+  "encountered an issue",
+  "i'm sorry",
+  "couldn't analyze",
+  "failed to analyze",
+  "unable to",
+  "error occurred",
+  "invalid domain",
+];
+
+const FIXTURES_PATH = new URL(
+  "../functions/_shared/capturedFalsePositives.json",
+  import.meta.url
+);
+const PAGE_SIZE = 100;
+// Rows scanned at most, newest first
+const MAX_SCANNED_ROWS = 5000;
+
+const maxAnswers = Number(Deno.args[0] ?? 20);
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+);
+
+const getContent = (row: StoredAnswer): unknown =>
+  row.competitors_data?.response?.data?.content ??
+  row.competitors_data?.content;
+
+const matchesLegacyPhrases = (content: unknown): boolean => {
+  const text = (
+    typeof content === "string" ? content : JSON.stringify(content) ?? ""
+  ).toLowerCase();
+  return LEGACY_ERROR_PHRASES.some((phrase) => text.includes(phrase));
+};
+
+const captured: { id: string; domain: string; content: unknown }[] = [];
+
+for (
+  let offset = 0;
+  offset < MAX_SCANNED_ROWS && captured.length < maxAnswers;
+  offset += PAGE_SIZE
+) {
+  const { data, error } = await supabase
+    .from("competitor_stack")
+    .select("id, company_domain, competitors_data")
+    .order("created_at", { ascending: false })
+    .range(offset, offset + PAGE_SIZE - 1);
+
+  if (error) {
+    console.error("Failed to read stored analyses:", error.message);
+    Deno.exit(1);
+  }
+
+  for (const row of (data ?? []) as StoredAnswer[]) {
+    const content = getContent(row);
+    if (matchesLegacyPhrases(content) && !detectContentError(content)) {
+      captured.push({ id: row.id, domain: row.company_domain, content });
+    }
+  }
+
+  if (!data || data.length < PAGE_SIZE) break;
+}
+
+const answers = captured.slice(0, maxAnswers);
+await Deno.writeTextFile(
+  FIXTURES_PATH,
+  `${JSON.stringify(answers, null, 2)}\n`
+);
+console.log(`Captured ${answers.length} false positives`);
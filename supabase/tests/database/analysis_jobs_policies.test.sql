@@ -0,0 +1,104 @@
+-- Row Level Security and constraints of analysis_jobs (migrations 002, 007,
+-- 011 and 013). Run with `supabase test db` against a local Supabase
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+INSERT INTO analysis_jobs (id, company_domain, conversation_id, status)
+VALUES ('00000000-0000-4000-8000-000000000011', 'acme.com', 'conv_acme_0001',
+    'running');
+
+-- Browsers use the anon key
+SET LOCAL ROLE anon;
+
+SELECT lives_ok(
+    $$ INSERT INTO analysis_jobs (company_domain, conversation_id, user_language,
+           cancel_token_hash)
+       VALUES ('example.com', 'conv_example_0001', 'en', repeat('a', 64)) $$,
+    'anon can enqueue a job'
+);
+
+SELECT results_eq(
+    $$ SELECT status FROM analysis_jobs
+       WHERE id = '00000000-0000-4000-8000-000000000011' $$,
+    $$ VALUES ('running') $$,
+    'anon can read job state'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO analysis_jobs (company_domain, conversation_id)
+       VALUES ('example.com', 'conv_example_0002') $$,
+    '42501', NULL,
+    'anon cannot enqueue a job without a cancel token hash'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO analysis_jobs (company_domain, conversation_id, status,
+           cancel_token_hash)
+       VALUES ('example.com', 'conv_example_0003', 'succeeded', repeat('a', 64)) $$,
+    '42501', NULL,
+    'anon cannot enqueue a finished job'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO analysis_jobs (company_domain, conversation_id,
+           cancel_token_hash)
+       VALUES ('Not A Domain', 'conv_example_0004', repeat('a', 64)) $$,
+    '23514', NULL,
+    'anon cannot enqueue a job for a malformed domain'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO analysis_jobs (company_domain, conversation_id,
+           cancel_token_hash)
+       VALUES ('example.com', 'conv?id=1', repeat('a', 64)) $$,
+    '23514', NULL,
+    'anon cannot enqueue a job for a malformed conversation ID'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO analysis_jobs (company_domain, conversation_id,
+           cancel_token_hash)
+       VALUES ('example.com', 'conv_example_0005', 'not-a-hash') $$,
+    '23514', NULL,
+    'anon cannot enqueue a job with a malformed cancel token hash'
+);
+
+SELECT is_empty(
+    $$ WITH updated AS (
+           UPDATE analysis_jobs SET status = 'failed' RETURNING id
+       ) SELECT id FROM updated $$,
+    'anon cannot update jobs'
+);
+
+SELECT is_empty(
+    $$ WITH deleted AS (DELETE FROM analysis_jobs RETURNING id)
+       SELECT id FROM deleted $$,
+    'anon cannot delete jobs'
+);
+
+-- The process-analysis-jobs function uses the service role
+RESET ROLE;
+SET LOCAL ROLE service_role;
+
+SELECT isnt_empty(
+    $$ WITH updated AS (
+           UPDATE analysis_jobs SET status = 'failed'
+           WHERE id = '00000000-0000-4000-8000-000000000011'
+           RETURNING id
+       ) SELECT id FROM updated $$,
+    'service role can update jobs'
+);
+
+SELECT isnt_empty(
+    $$ WITH deleted AS (
+           DELETE FROM analysis_jobs
+           WHERE id = '00000000-0000-4000-8000-000000000011'
+           RETURNING id
+       ) SELECT id FROM deleted $$,
+    'service role can delete jobs'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
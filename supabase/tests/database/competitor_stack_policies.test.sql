@@ -0,0 +1,261 @@
+-- Row Level Security, read functions and constraints of competitor_stack
+-- (migrations 006, 012, 013 and 014). Run with `supabase test db` against a
+-- local Supabase
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(27);
+
+-- A requester, their teammate and a stranger
+INSERT INTO auth.users (id, email)
+VALUES
+    ('00000000-0000-4000-8000-0000000000a1', 'owner@acme.com'),
+    ('00000000-0000-4000-8000-0000000000a2', 'teammate@acme.com'),
+    ('00000000-0000-4000-8000-0000000000a3', 'stranger@example.com');
+
+INSERT INTO workspaces (id, name, created_by)
+VALUES ('00000000-0000-4000-8000-0000000000b1', 'Acme',
+    '00000000-0000-4000-8000-0000000000a1');
+
+INSERT INTO workspace_members (workspace_id, user_id, role)
+VALUES
+    ('00000000-0000-4000-8000-0000000000b1',
+        '00000000-0000-4000-8000-0000000000a1', 'owner'),
+    ('00000000-0000-4000-8000-0000000000b1',
+        '00000000-0000-4000-8000-0000000000a2', 'member');
+
+INSERT INTO workspace_domains (workspace_id, company_domain, added_by)
+VALUES ('00000000-0000-4000-8000-0000000000b1', 'acme.com',
+    '00000000-0000-4000-8000-0000000000a1');
+
+-- 001 was requested by the signed-in owner, 002 by an anonymous browser
+INSERT INTO competitor_stack (id, company_domain, competitors_data, created_at,
+    requested_by)
+VALUES
+    ('00000000-0000-4000-8000-000000000001', 'acme.com',
+        '{"status": "succeeded"}', NOW() - INTERVAL '2 days',
+        '00000000-0000-4000-8000-0000000000a1'),
+    ('00000000-0000-4000-8000-000000000002', 'acme.com',
+        '{"status": "succeeded"}', NOW() - INTERVAL '1 day', NULL),
+    ('00000000-0000-4000-8000-000000000003', 'other.com',
+        '{"status": "succeeded"}', NOW() - INTERVAL '1 day',
+        '00000000-0000-4000-8000-0000000000a1');
+
+INSERT INTO analysis_jobs (company_domain, conversation_id, status, result_id,
+    cancel_token_hash)
+VALUES ('acme.com', 'conv_acme_0002', 'succeeded',
+    '00000000-0000-4000-8000-000000000002',
+    encode(sha256(convert_to('anon-cancel-token', 'UTF8')), 'hex'));
+
+-- Browsers use the anon key
+SET LOCAL ROLE anon;
+
+SELECT lives_ok(
+    $$ INSERT INTO competitor_stack (company_domain, competitors_data, user_language)
+       VALUES ('example.com', '{"status": "succeeded"}', 'en') $$,
+    'anon can store a well-formed analysis'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO competitor_stack (company_domain, competitors_data)
+       VALUES ('https://Example.com/', '{"status": "succeeded"}') $$,
+    '42501', NULL,
+    'anon cannot store an analysis of an unnormalized domain'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO competitor_stack (company_domain, competitors_data)
+       VALUES ('example.com', '["not", "an", "envelope"]') $$,
+    '42501', NULL,
+    'anon cannot store an analysis that is not a JSON object'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO competitor_stack (company_domain, competitors_data)
+       VALUES ('example.com',
+           jsonb_build_object('padding', repeat('x', 1000001))) $$,
+    '42501', NULL,
+    'anon cannot store an analysis larger than 1 MB'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO competitor_stack (company_domain, competitors_data, created_at)
+       VALUES ('example.com', '{"status": "succeeded"}', NOW() - INTERVAL '1 year') $$,
+    '42501', NULL,
+    'anon cannot backdate an analysis'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO competitor_stack (company_domain, competitors_data, requested_by)
+       VALUES ('example.com', '{"status": "succeeded"}',
+           '00000000-0000-4000-8000-0000000000ff') $$,
+    '42501', NULL,
+    'anon cannot attribute an analysis to a user'
+);
+
+SELECT is_empty(
+    $$ SELECT id FROM competitor_stack $$,
+    'anon cannot list analyses'
+);
+
+SELECT is_empty(
+    $$ SELECT id FROM get_latest_competitor_analysis('acme.com') $$,
+    'anon cannot read the analyses of a domain by its name alone'
+);
+
+SELECT is_empty(
+    $$ SELECT id FROM list_competitor_analyses('acme.com') $$,
+    'anon cannot list the analyses of a domain by its name alone'
+);
+
+SELECT results_eq(
+    $$ SELECT id FROM get_latest_competitor_analysis('acme.com', NULL,
+           ARRAY['anon-cancel-token']) $$,
+    $$ VALUES ('00000000-0000-4000-8000-000000000002'::uuid) $$,
+    'anon reads the analysis of a job it holds the cancel token of'
+);
+
+SELECT is_empty(
+    $$ SELECT id FROM get_latest_competitor_analysis('acme.com', NULL,
+           ARRAY['guessed-token']) $$,
+    'anon cannot read analyses with a wrong cancel token'
+);
+
+SELECT results_eq(
+    $$ SELECT id, total_count FROM list_competitor_analyses('acme.com', 0, 10,
+           ARRAY['anon-cancel-token']) $$,
+    $$ VALUES ('00000000-0000-4000-8000-000000000002'::uuid, 1::bigint) $$,
+    'anon only lists the analyses it requested'
+);
+
+SELECT throws_ok(
+    $$ SELECT create_analysis_share('00000000-0000-4000-8000-000000000001',
+           180, ARRAY['anon-cancel-token']) $$,
+    '42501', NULL,
+    'anon cannot share an analysis it did not request'
+);
+
+SELECT lives_ok(
+    $$ SELECT create_analysis_share('00000000-0000-4000-8000-000000000002',
+           180, ARRAY['anon-cancel-token']) $$,
+    'anon can share an analysis it requested'
+);
+
+SELECT throws_ok(
+    $$ SELECT can_read_competitor_analysis(
+           '00000000-0000-4000-8000-000000000001', NULL, '{}') $$,
+    '42501', NULL,
+    'anon cannot call the access check directly'
+);
+
+SELECT is_empty(
+    $$ WITH updated AS (
+           UPDATE competitor_stack SET company_domain = 'evil.com'
+           RETURNING id
+       ) SELECT id FROM updated $$,
+    'anon cannot update analyses'
+);
+
+SELECT is_empty(
+    $$ WITH deleted AS (DELETE FROM competitor_stack RETURNING id)
+       SELECT id FROM deleted $$,
+    'anon cannot delete analyses'
+);
+
+-- Signed-in users read what they or their teammates requested
+RESET ROLE;
+SELECT set_config('request.jwt.claims',
+    '{"sub": "00000000-0000-4000-8000-0000000000a1", "role": "authenticated"}',
+    true);
+SET LOCAL ROLE authenticated;
+
+SELECT results_eq(
+    $$ SELECT id FROM get_latest_competitor_analysis('acme.com') $$,
+    $$ VALUES ('00000000-0000-4000-8000-000000000001'::uuid) $$,
+    'the requester reads the latest analysis they requested'
+);
+
+SELECT results_eq(
+    $$ SELECT id FROM get_competitor_analyses(
+           ARRAY['acme.com'],
+           ARRAY['00000000-0000-4000-8000-000000000001',
+               '00000000-0000-4000-8000-000000000002',
+               '00000000-0000-4000-8000-000000000003']::uuid[]) $$,
+    $$ VALUES ('00000000-0000-4000-8000-000000000001'::uuid) $$,
+    'the requester only reads their versions of the given domains'
+);
+
+SELECT results_eq(
+    $$ SELECT analysis_id FROM list_workspace_analyses(
+           '00000000-0000-4000-8000-0000000000b1') $$,
+    $$ VALUES ('00000000-0000-4000-8000-000000000001'::uuid) $$,
+    'the dashboard lists the latest analysis requested by a member'
+);
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims',
+    '{"sub": "00000000-0000-4000-8000-0000000000a2", "role": "authenticated"}',
+    true);
+SET LOCAL ROLE authenticated;
+
+SELECT results_eq(
+    $$ SELECT id FROM get_latest_competitor_analysis('acme.com') $$,
+    $$ VALUES ('00000000-0000-4000-8000-000000000001'::uuid) $$,
+    'a teammate of the requester reads their analysis'
+);
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims',
+    '{"sub": "00000000-0000-4000-8000-0000000000a3", "role": "authenticated"}',
+    true);
+SET LOCAL ROLE authenticated;
+
+SELECT is_empty(
+    $$ SELECT id FROM get_latest_competitor_analysis('acme.com') $$,
+    'a signed-in stranger cannot read the analyses of a domain'
+);
+
+-- Edge functions use the service role, which bypasses RLS
+RESET ROLE;
+SET LOCAL ROLE service_role;
+
+SELECT results_eq(
+    $$ SELECT count(*) FROM competitor_stack
+       WHERE company_domain IN ('acme.com', 'other.com') $$,
+    $$ VALUES (3::bigint) $$,
+    'anon updates and deletes left the analyses untouched'
+);
+
+SELECT isnt_empty(
+    $$ WITH updated AS (
+           UPDATE competitor_stack SET user_language = 'fr'
+           WHERE id = '00000000-0000-4000-8000-000000000001'
+           RETURNING id
+       ) SELECT id FROM updated $$,
+    'service role can update analyses'
+);
+
+SELECT isnt_empty(
+    $$ WITH deleted AS (
+           DELETE FROM competitor_stack
+           WHERE id = '00000000-0000-4000-8000-000000000003'
+           RETURNING id
+       ) SELECT id FROM deleted $$,
+    'service role can delete analyses'
+);
+
+SELECT lives_ok(
+    $$ INSERT INTO competitor_stack (company_domain, competitors_data)
+       VALUES ('example.com', '{"status": "succeeded"}') $$,
+    'service role can store analyses'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO competitor_stack (company_domain, competitors_data)
+       VALUES ('Not A Domain', '{"status": "succeeded"}') $$,
+    '23514', NULL,
+    'service role cannot store a malformed analysis either'
+);
+
+SELECT * FROM finish();
+ROLLBACK;